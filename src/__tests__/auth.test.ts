@@ -0,0 +1,154 @@
+/**
+ * Tests for runtime enforcement of .auth()
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { z } from 'zod'
+import { ok, err } from 'neverthrow'
+import { defineHandler } from '../handler'
+import { defineService } from '../service'
+import { configureFramewerk, resetFramewerkConfig } from '../config'
+import type { Authorizer } from '../auth'
+import { AuthenticationError, AuthorizationError } from '../errors'
+import type { HandlerStream } from '../streaming'
+import { createHandlerTestHarness } from '../testing'
+
+interface Session {
+  userId: string
+  scopes: string[]
+}
+
+const sessionAuthorizer: Authorizer = {
+  authenticate: (ctx) => {
+    const session = ctx.session as Session | undefined
+    return session ? { id: session.userId, scopes: session.scopes } : undefined
+  },
+}
+
+const deleteUser = defineHandler("users.delete", "Delete a user")
+  .auth({ required: true, scopes: ['users:write'] })
+  .input(z.object({ id: z.string() }))
+  .output(z.object({ id: z.string() }))
+  .handler<object>(async (input) => ok({ id: input.id }))
+  .build()
+
+const whoAmI = defineHandler("users.me", "Current user")
+  .auth({ required: true })
+  .input(z.object({}))
+  .output(z.object({ id: z.string() }))
+  .handler<object>(async (_input, ctx) => ok({ id: (ctx.session as Session).userId }))
+  .build()
+
+const asUser = (scopes: string[]) => ({ session: { userId: 'u1', scopes } })
+
+describe('Authorization', () => {
+  beforeEach(() => {
+    resetFramewerkConfig()
+  })
+
+  it('should keep .auth() informational without an authorizer', async () => {
+    const result = await createHandlerTestHarness(deleteUser, {}).call({ id: 'u2' })
+
+    expect(result._unsafeUnwrap()).toEqual({ id: 'u2' })
+  })
+
+  it('should return AuthenticationError without a principal', async () => {
+    configureFramewerk({ auth: { authorizer: sessionAuthorizer } })
+
+    const result = await createHandlerTestHarness(whoAmI, {}).call({})
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(AuthenticationError)
+  })
+
+  it('should return AuthorizationError when scopes are missing', async () => {
+    configureFramewerk({ auth: { authorizer: sessionAuthorizer } })
+
+    const { call } = createHandlerTestHarness(deleteUser, {})
+
+    const denied = await call({ id: 'u2' }, undefined, asUser(['users:read']))
+    const allowed = await call({ id: 'u2' }, undefined, asUser(['users:read', 'users:write']))
+
+    const error = denied._unsafeUnwrapErr()
+    expect(error).toBeInstanceOf(AuthorizationError)
+    expect(error.message).toBe('Missing required scopes: users:write')
+    expect(allowed._unsafeUnwrap()).toEqual({ id: 'u2' })
+  })
+
+  it('should check authorization before validating input', async () => {
+    configureFramewerk({ auth: { authorizer: sessionAuthorizer } })
+
+    const result = await createHandlerTestHarness(deleteUser, {}).call({} as never)
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(AuthenticationError)
+  })
+
+  it('should add the auth errors to the error map', () => {
+    expect(Object.keys(deleteUser({}).errors)).toEqual(expect.arrayContaining(['AuthenticationError', 'AuthorizationError']))
+    expect(Object.keys(whoAmI({}).errors)).toContain('AuthenticationError')
+    expect(Object.keys(whoAmI({}).errors)).not.toContain('AuthorizationError')
+    expect(deleteUser({}).errors.AuthorizationError!.status).toBe(403)
+  })
+
+  it('should prefer the service authorizer, also for nested calls', async () => {
+    configureFramewerk({ auth: { authorizer: { authenticate: () => undefined } } })
+    const deleteSelf = defineHandler("users.deleteSelf", "Delete the current user")
+      .input(z.object({}))
+      .output(z.object({ id: z.string() }))
+      .calls(deleteUser)
+      .handler<object>(async (_input, ctx) => {
+        const deleted = await ctx.call(deleteUser, { id: 'u1' })
+        return deleted.isOk() ? ok(deleted.value) : err(deleted.error)
+      })
+      .build()
+
+    const users = defineService("UserService")
+      .$dependsOn<object>()
+      .addHandler("deleteUser", deleteUser({}).method)
+      .addHandler("deleteSelf", deleteSelf({}).method)
+      .authorizer(sessionAuthorizer)
+      .build()
+      .make({})
+
+    const direct = await users.deleteUser!({ id: 'u2' }, undefined, asUser(['users:write']))
+    const nested = await users.deleteSelf!({}, undefined, asUser([]))
+    const outside = await createHandlerTestHarness(deleteUser, {}).call({ id: 'u2' }, undefined, asUser(['users:write']))
+
+    expect(direct._unsafeUnwrap()).toEqual({ id: 'u2' })
+    expect(nested._unsafeUnwrapErr()).toBeInstanceOf(AuthorizationError)
+    expect(outside._unsafeUnwrapErr()).toBeInstanceOf(AuthenticationError)
+  })
+
+  it('should enforce .auth() on streaming handlers', async () => {
+    configureFramewerk({ auth: { authorizer: sessionAuthorizer } })
+    const exportUsers = defineHandler("users.export", "Export users")
+      .auth({ scopes: ['users:export'] })
+      .input(z.object({}))
+      .output(z.object({}))
+      .stream(z.string())
+      .handlerStream<object>(async function* () {
+        yield 'u1'
+        return ok({})
+      })
+      .buildStream()
+
+    const stream: HandlerStream<string, unknown, unknown> = createHandlerTestHarness(exportUsers, {}).call({}, undefined, asUser([]))
+    const chunks: string[] = []
+    for await (const chunk of stream) {
+      chunks.push(chunk)
+    }
+
+    expect(chunks).toEqual([])
+    expect((await stream.result)._unsafeUnwrapErr()).toBeInstanceOf(AuthorizationError)
+  })
+
+  it('should not build enforced .auth() synchronously', () => {
+    expect(() =>
+      defineHandler("users.count", "Count users")
+        .auth({ required: true })
+        .input(z.object({}))
+        .output(z.number())
+        .handlerSync<object>(() => ok(1))
+        .buildSync()
+    ).toThrow('Handler "users.count" cannot be built synchronously because it uses .auth()')
+  })
+})
@@ -0,0 +1,209 @@
+/**
+ * Tests for batch handlers
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { z } from 'zod'
+import { ok, err } from 'neverthrow'
+import { defineHandler } from '../handler'
+import { defineService } from '../service'
+import { FramewerkError, HandlerTimeoutError, InputValidationError } from '../errors'
+import type { HandlerContext } from '../types'
+
+class UserNotFoundError extends FramewerkError.tagged("UserNotFoundError") {
+  static readonly httpStatus = 404
+}
+
+interface UserDeps {
+  findMany: (ids: string[], ctx: HandlerContext) => Promise<Array<{ id: string }>>
+}
+
+const createGetUser = (options?: { maxBatchSize?: number; scope?: (ctx: HandlerContext) => unknown }) =>
+  defineHandler("users.get", "Get a user")
+    .input(z.object({ id: z.string().min(1) }))
+    .output(z.object({ id: z.string() }))
+    .errors([UserNotFoundError])
+    .batch<UserDeps>(async (inputs, ctx) => {
+      const users = await ctx.deps.findMany(inputs.map((input) => input.id), ctx)
+      return inputs.map((input) => {
+        const user = users.find((candidate) => candidate.id === input.id)
+        return user ? ok(user) : err(new UserNotFoundError(`User ${input.id} not found`))
+      })
+    }, options)
+    .build()
+
+const createDeps = (known: string[] = ['u1', 'u2', 'u3', 'u4', 'u5']) => ({
+  findMany: vi.fn<UserDeps['findMany']>(async (ids) => ids.filter((id) => known.includes(id)).map((id) => ({ id }))),
+})
+
+describe('Batch handlers', () => {
+  it('should resolve concurrent calls in one batch with per-item results', async () => {
+    const deps = createDeps(['u1', 'u2'])
+    const getUser = createGetUser()(deps)
+    const ctx = {}
+
+    const [first, second, missing] = await Promise.all(
+      ['u1', 'u2', 'u9'].map((id) => getUser.method({ id }, undefined, ctx))
+    )
+
+    expect(deps.findMany).toHaveBeenCalledTimes(1)
+    expect(deps.findMany.mock.calls[0]![0]).toEqual(['u1', 'u2', 'u9'])
+    expect(first!._unsafeUnwrap()).toEqual({ id: 'u1' })
+    expect(second!._unsafeUnwrap()).toEqual({ id: 'u2' })
+    expect(missing!._unsafeUnwrapErr()).toBeInstanceOf(UserNotFoundError)
+  })
+
+  it('should deduplicate inputs within a batch', async () => {
+    const deps = createDeps()
+    const getUser = createGetUser()(deps)
+    const ctx = {}
+
+    const results = await Promise.all(['u1', 'u1', 'u2'].map((id) => getUser.method({ id }, undefined, ctx)))
+
+    expect(deps.findMany.mock.calls[0]![0]).toEqual(['u1', 'u2'])
+    expect(results.map((result) => result._unsafeUnwrap().id)).toEqual(['u1', 'u1', 'u2'])
+  })
+
+  it('should split batches at the maximum batch size', async () => {
+    const deps = createDeps()
+    const getUser = createGetUser({ maxBatchSize: 2 })(deps)
+    const ctx = {}
+
+    await Promise.all(['u1', 'u2', 'u3', 'u4', 'u5'].map((id) => getUser.method({ id }, undefined, ctx)))
+
+    expect(deps.findMany.mock.calls.map(([ids]) => ids)).toEqual([['u1', 'u2'], ['u3', 'u4'], ['u5']])
+  })
+
+  it('should batch per request', async () => {
+    const deps = createDeps()
+    const getUser = createGetUser()(deps)
+
+    await Promise.all([
+      getUser.method({ id: 'u1' }, undefined, { requestId: 'r1' }),
+      getUser.method({ id: 'u2' }, undefined, { requestId: 'r2' }),
+      getUser.method({ id: 'u3' }, undefined, { requestId: 'r1' }),
+      getUser.method({ id: 'u4' }, undefined, {}),
+      getUser.method({ id: 'u5' }, undefined, {}),
+    ])
+
+    const batches = deps.findMany.mock.calls.map(([ids, ctx]) => [ids, ctx.requestId])
+    expect(batches).toEqual([
+      [['u1', 'u3'], 'r1'],
+      [['u2'], 'r2'],
+      [['u4'], undefined],
+      [['u5'], undefined],
+    ])
+  })
+
+  it('should batch the calls of a request made through a service', async () => {
+    const deps = createDeps()
+    const users = defineService("UserService")
+      .$dependsOn<UserDeps>()
+      .addHandler("get", createGetUser()(deps).method)
+      .build()
+      .make(deps)
+    const first = { tenantId: 't1' }
+    const second = { tenantId: 't1' }
+
+    await Promise.all([
+      users.get!({ id: 'u1' }, undefined, first),
+      users.get!({ id: 'u2' }, undefined, first),
+      users.get!({ id: 'u3' }, undefined, second),
+    ])
+
+    expect(deps.findMany.mock.calls.map(([ids]) => ids)).toEqual([['u1', 'u2'], ['u3']])
+  })
+
+  it('should batch service calls made without a context together', async () => {
+    const deps = createDeps()
+    const users = defineService("UserService")
+      .$dependsOn<UserDeps>()
+      .addHandler("get", createGetUser()(deps).method)
+      .build()
+      .make(deps)
+
+    await Promise.all([users.get!({ id: 'u1' }), users.get!({ id: 'u2' })])
+
+    expect(deps.findMany.mock.calls.map(([ids]) => ids)).toEqual([['u1', 'u2']])
+  })
+
+  it('should group calls with a custom scope', async () => {
+    const deps = createDeps()
+    const getUser = createGetUser({ scope: (ctx) => ctx.tenantId })(deps)
+
+    await Promise.all([
+      getUser.method({ id: 'u1' }, undefined, { tenantId: 't1', requestId: 'r1' }),
+      getUser.method({ id: 'u2' }, undefined, { tenantId: 't1', requestId: 'r2' }),
+    ])
+
+    expect(deps.findMany.mock.calls.map(([ids]) => ids)).toEqual([['u1', 'u2']])
+  })
+
+  it('should abort a batch only once every call of it was aborted', async () => {
+    let release: () => void = () => {}
+    const batches: Array<{ signal?: AbortSignal; deadline?: number }> = []
+    const getUser = defineHandler("users.get", "Get a user")
+      .input(z.object({ id: z.string() }))
+      .output(z.object({ id: z.string() }))
+      .batch<object>(async (inputs, ctx) => {
+        batches.push({ signal: ctx.options?.signal, deadline: ctx.options?.deadline })
+        await new Promise<void>((resolve) => (release = resolve))
+        return inputs.map((input) => ok(input))
+      })
+      .build()({})
+    const first = new AbortController()
+    const second = new AbortController()
+    const ctx = {}
+    const deadline = Date.now() + 60_000
+
+    const calls = [
+      getUser.method({ id: 'u1' }, { signal: first.signal, deadline }, ctx),
+      getUser.method({ id: 'u2' }, { signal: second.signal, deadline: deadline + 1000 }, ctx),
+    ]
+    await vi.waitFor(() => expect(batches).toHaveLength(1))
+    first.abort()
+    const aborted = await calls[0]!
+
+    expect(aborted._unsafeUnwrapErr()).toBeInstanceOf(HandlerTimeoutError)
+    expect(batches[0]!.signal!.aborted).toBe(false)
+    expect(batches[0]!.deadline).toBe(deadline + 1000)
+    second.abort()
+    expect(batches[0]!.signal!.aborted).toBe(true)
+    release()
+  })
+
+  it('should validate each input before it joins a batch', async () => {
+    const deps = createDeps()
+    const getUser = createGetUser()(deps)
+    const ctx = {}
+
+    const [valid, invalid] = await Promise.all([
+      getUser.method({ id: 'u1' }, undefined, ctx),
+      getUser.method({ id: '' }, undefined, ctx),
+    ])
+
+    expect(valid!.isOk()).toBe(true)
+    expect(invalid!._unsafeUnwrapErr()).toBeInstanceOf(InputValidationError)
+    expect(deps.findMany.mock.calls[0]![0]).toEqual(['u1'])
+  })
+
+  it('should reject every call of a batch that returns the wrong number of results', async () => {
+    const getCount = defineHandler("users.count", "Count a user's posts")
+      .input(z.object({ id: z.string() }))
+      .output(z.number())
+      .batch<object>(async () => [ok(1)])
+      .build()({})
+    const ctx = {}
+
+    const calls = ['u1', 'u2'].map((id) => getCount.method({ id }, undefined, ctx))
+
+    for (const call of calls) {
+      await expect(call).rejects.toThrow('Batch handler "users.count" returned 1 results for 2 inputs')
+    }
+  })
+
+  it('should expose the batch settings in metadata', () => {
+    expect(createGetUser({ maxBatchSize: 50 })(createDeps()).metadata.batch).toEqual({ maxBatchSize: 50, windowMs: 0 })
+    expect(() => createGetUser({ maxBatchSize: 0 })).toThrow('Invalid maximum batch size: 0')
+  })
+})
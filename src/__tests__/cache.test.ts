@@ -0,0 +1,221 @@
+/**
+ * Tests for handler result caching
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { z } from 'zod'
+import { ok, err } from 'neverthrow'
+import { defineHandler } from '../handler'
+import { defineService } from '../service'
+import { ServiceInspector } from '../introspection'
+import { InMemoryLRUCacheStore, invalidateCache, type CacheOptions } from '../cache'
+import { FramewerkError } from '../errors'
+
+class AccountNotFoundError extends FramewerkError.tagged("AccountNotFoundError") {
+  static readonly httpStatus = 404
+
+  constructor(id: string) {
+    super(`Account ${id} not found`)
+  }
+}
+
+const createGetAccountHandler = (
+  load: (id: string) => Promise<{ id: string; balance: number } | null>,
+  cache: Omit<CacheOptions, 'store'> = { ttl: 60_000 },
+  store = new InMemoryLRUCacheStore()
+) =>
+  defineHandler("accounts.get", "Get an account")
+    .input(z.object({ id: z.string() }))
+    .output(z.object({ id: z.string(), balance: z.number() }))
+    .errors([AccountNotFoundError] as const)
+    .cache({ ...cache, store })
+    .withDependencies<object>()
+    .resolver(() => async (input) => {
+      const account = await load(input.id)
+      return account ? ok(account) : err(new AccountNotFoundError(input.id))
+    })
+    .build()({})
+
+describe('Result Caching', () => {
+  it('should serve repeated calls with the same input from the cache', async () => {
+    const load = vi.fn(async (id: string) => ({ id, balance: 10 }))
+    const handler = createGetAccountHandler(load)
+
+    await handler.method({ id: 'a' }, undefined, {})
+    const second = await handler.method({ id: 'a' }, undefined, {})
+    await handler.method({ id: 'b' }, undefined, {})
+
+    expect(second._unsafeUnwrap()).toEqual({ id: 'a', balance: 10 })
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not cache error results', async () => {
+    const load = vi.fn().mockResolvedValueOnce(null).mockResolvedValueOnce({ id: 'a', balance: 10 })
+    const handler = createGetAccountHandler(load)
+
+    const first = await handler.method({ id: 'a' }, undefined, {})
+    const second = await handler.method({ id: 'a' }, undefined, {})
+
+    expect(first._unsafeUnwrapErr()).toBeInstanceOf(AccountNotFoundError)
+    expect(second.isOk()).toBe(true)
+  })
+
+  it('should include selected context fields in the key', async () => {
+    const load = vi.fn(async (id: string) => ({ id, balance: 10 }))
+    const handler = createGetAccountHandler(load, { ttl: 60_000, key: { context: ['tenantId'] } })
+
+    await handler.method({ id: 'a' }, undefined, { tenantId: 't1', requestId: 'r1' })
+    await handler.method({ id: 'a' }, undefined, { tenantId: 't1', requestId: 'r2' })
+    await handler.method({ id: 'a' }, undefined, { tenantId: 't2', requestId: 'r3' })
+
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+
+  it('should keep entries per dependencies unless they are shared', async () => {
+    const defineGetBalance = (shared?: boolean) =>
+      defineHandler("accounts.balance", "Get a balance")
+        .input(z.object({ id: z.string() }))
+        .output(z.number())
+        .cache({ ttl: 60_000, store: new InMemoryLRUCacheStore(), shared })
+        .handler<{ balance: number }>(async (_input, ctx) => ok(ctx.deps.balance))
+        .build()
+    const tenant1 = { balance: 10 }
+    const GetBalance = defineGetBalance()
+    const SharedBalance = defineGetBalance(true)
+
+    const results = [
+      await GetBalance(tenant1).method({ id: 'a' }, undefined, {}),
+      await GetBalance(tenant1).method({ id: 'a' }, undefined, {}),
+      await GetBalance({ balance: 20 }).method({ id: 'a' }, undefined, {}),
+      await SharedBalance(tenant1).method({ id: 'a' }, undefined, {}),
+      await SharedBalance({ balance: 20 }).method({ id: 'a' }, undefined, {}),
+    ]
+
+    expect(results.map((result) => result._unsafeUnwrap())).toEqual([10, 10, 20, 10, 10])
+    expect(SharedBalance(tenant1).metadata.cache).toEqual({ ttl: 60_000, key: [], shared: true })
+  })
+
+  it('should invalidate the entries of every instance for the parsed input', async () => {
+    const load = vi.fn(async (id: string) => ({ id, balance: 10 }))
+    const GetAccount = defineHandler("accounts.find", "Find an account")
+      .input(z.object({ id: z.string().trim(), currency: z.string().default('EUR') }))
+      .output(z.object({ id: z.string(), balance: z.number() }))
+      .cache({ ttl: 60_000, store: new InMemoryLRUCacheStore() })
+      .handler<object>(async (input) => ok(await load(input.id)))
+      .build()
+    const [first, second] = [GetAccount({}), GetAccount({})]
+
+    await first.method({ id: 'a', currency: 'EUR' }, undefined, {})
+    await second.method({ id: 'a', currency: 'EUR' }, undefined, {})
+    await invalidateCache('accounts.find', { id: ' a ' })
+    await first.method({ id: 'a', currency: 'EUR' }, undefined, {})
+    await second.method({ id: 'a', currency: 'EUR' }, undefined, {})
+
+    expect(load).toHaveBeenCalledTimes(4)
+  })
+
+  it('should expire entries after the ttl', async () => {
+    vi.useFakeTimers()
+    try {
+      const load = vi.fn(async (id: string) => ({ id, balance: 10 }))
+      const handler = createGetAccountHandler(load, { ttl: 1000 })
+
+      await handler.method({ id: 'a' }, undefined, {})
+      vi.advanceTimersByTime(1001)
+      await handler.method({ id: 'a' }, undefined, {})
+
+      expect(load).toHaveBeenCalledTimes(2)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should invalidate single entries and whole handlers by operationId', async () => {
+    const load = vi.fn(async (id: string) => ({ id, balance: 10 }))
+    const handler = createGetAccountHandler(load)
+
+    await handler.method({ id: 'a' }, undefined, {})
+    await handler.method({ id: 'b' }, undefined, {})
+
+    await invalidateCache('accounts.get', { id: 'a' })
+    await handler.method({ id: 'a' }, undefined, {})
+    await handler.method({ id: 'b' }, undefined, {})
+    expect(load).toHaveBeenCalledTimes(3)
+
+    await invalidateCache('accounts.get')
+    await handler.method({ id: 'b' }, undefined, {})
+    expect(load).toHaveBeenCalledTimes(4)
+  })
+
+  it('should cache the versions of a handler separately', async () => {
+    const store = new InMemoryLRUCacheStore()
+    const loadV1 = vi.fn(async (id: string) => ({ id, name: 'v1-shape' }))
+    const loadV2 = vi.fn(async (id: string) => ({ id, fullName: 'v2-shape' }))
+    const getUserV1 = defineHandler("users.get", "Get a user")
+      .version("1")
+      .input(z.object({ id: z.string() }))
+      .output(z.object({ id: z.string(), name: z.string() }))
+      .cache({ ttl: 60_000, store })
+      .handler<object>(async (input) => ok(await loadV1(input.id)))
+      .build()({})
+    const getUserV2 = defineHandler("users.get", "Get a user")
+      .version("2")
+      .input(z.object({ id: z.string() }))
+      .output(z.object({ id: z.string(), fullName: z.string() }))
+      .cache({ ttl: 60_000, store })
+      .handler<object>(async (input) => ok(await loadV2(input.id)))
+      .build()({})
+    const users = defineService("UserService")
+      .$dependsOn<object>()
+      .addHandler("getUser", getUserV1.method)
+      .addHandler("getUser", getUserV2.method)
+      .build()
+      .make({})
+
+    await users.getUser!({ id: 'u1' }, { version: '1' })
+    const v2 = await users.getUser!({ id: 'u1' }, { version: '2' })
+    await users.getUser!({ id: 'u1' }, { version: '1' })
+
+    expect(v2._unsafeUnwrap()).toEqual({ id: 'u1', fullName: 'v2-shape' })
+    expect(loadV1).toHaveBeenCalledTimes(1)
+    expect(loadV2).toHaveBeenCalledTimes(1)
+
+    await invalidateCache('users.get', { id: 'u1' })
+    await users.getUser!({ id: 'u1' }, { version: '1' })
+    await users.getUser!({ id: 'u1' }, { version: '2' })
+    expect(loadV1).toHaveBeenCalledTimes(2)
+    expect(loadV2).toHaveBeenCalledTimes(2)
+  })
+
+  it('should evict the least recently used entries', async () => {
+    const store = new InMemoryLRUCacheStore(2)
+
+    await store.set('a', 1, 1000)
+    await store.set('b', 2, 1000)
+    await store.get('a')
+    await store.set('c', 3, 1000)
+
+    expect(await store.get('a')).toEqual({ value: 1 })
+    expect(await store.get('b')).toBeUndefined()
+    expect(store.size).toBe(2)
+  })
+
+  it('should reflect cache settings in handler and service metadata', () => {
+    const handler = createGetAccountHandler(vi.fn(), { ttl: 5000, key: { context: ['tenantId'] } })
+
+    expect(handler.metadata.cache).toEqual({ ttl: 5000, key: ['tenantId'], shared: false })
+
+    const service = defineService("AccountService")
+      .withServiceDependencies<object>()
+      .addHandler('getAccount', handler.method)
+      .build()
+    const [discovered] = new ServiceInspector(service).discoverHandlers()
+
+    expect(discovered!.metadata.description).toBe('Get an account')
+    expect(discovered!.metadata.performance).toMatchObject({
+      cacheable: true,
+      idempotent: false,
+      cache: { ttl: 5000, key: ['tenantId'], shared: false },
+    })
+  })
+})
@@ -0,0 +1,207 @@
+/**
+ * Tests for calling handlers from other handlers with ctx.call
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { z } from 'zod'
+import { ok, err } from 'neverthrow'
+import { defineHandler } from '../handler'
+import { FramewerkError } from '../errors'
+import { createHandlerTestHarness } from '../testing'
+
+class ProfileNotFoundError extends FramewerkError.tagged("ProfileNotFoundError") {
+  static readonly httpStatus = 404
+
+  constructor(userId: string) {
+    super(`Profile for ${userId} not found`)
+  }
+}
+
+class SettingsUnavailableError extends FramewerkError.tagged("SettingsUnavailableError") {
+  static readonly httpStatus = 503
+
+  constructor() {
+    super('Settings are unavailable')
+  }
+}
+
+class UserInactiveError extends FramewerkError.tagged("UserInactiveError") {
+  static readonly httpStatus = 409
+
+  constructor(userId: string) {
+    super(`User ${userId} is inactive`)
+  }
+}
+
+interface UserDeps {
+  profiles: Map<string, { name: string; active: boolean }>
+  settingsAvailable: boolean
+}
+
+const GetProfile = defineHandler("users.getProfile", "Get a user's profile")
+  .input(z.object({ userId: z.string() }))
+  .output(z.object({ name: z.string(), active: z.boolean() }))
+  .errors([ProfileNotFoundError] as const)
+  .withDependencies<UserDeps>()
+  .resolver((deps) => async (input) => {
+    const profile = deps.profiles.get(input.userId)
+    return profile ? ok(profile) : err(new ProfileNotFoundError(input.userId))
+  })
+  .build()
+
+const GetSettings = defineHandler("users.getSettings", "Get a user's settings")
+  .input(z.object({ userId: z.string() }))
+  .output(z.object({ theme: z.string() }))
+  .errors([SettingsUnavailableError] as const)
+  .withDependencies<UserDeps>()
+  .resolver((deps) => async () =>
+    deps.settingsAvailable ? ok({ theme: 'dark' }) : err(new SettingsUnavailableError())
+  )
+  .build()
+
+const GetUserWithSettings = defineHandler("users.getWithSettings", "Get a user with settings")
+  .input(z.object({ id: z.string() }))
+  .output(z.object({ name: z.string(), theme: z.string() }))
+  .errors([UserInactiveError] as const)
+  .calls(GetProfile, GetSettings)
+  .withDependencies<UserDeps>()
+  .resolver(() => async (input, _options, ctx) => {
+    const profile = await ctx.call(GetProfile, { userId: input.id })
+    if (profile.isErr()) {
+      return err(profile.error)
+    }
+
+    const settings = await ctx.call(GetSettings, { userId: input.id })
+    if (settings.isErr()) {
+      return err(settings.error)
+    }
+
+    if (!profile.value.active) {
+      return err(new UserInactiveError(input.id))
+    }
+    return ok({ name: profile.value.name, theme: settings.value.theme })
+  })
+  .build()
+
+const deps: UserDeps = {
+  profiles: new Map([
+    ['u1', { name: 'Ada', active: true }],
+    ['u2', { name: 'Bob', active: false }],
+  ]),
+  settingsAvailable: true,
+}
+
+describe('Calling Other Handlers', () => {
+  it('should return the callee results through ctx.call', async () => {
+    const { call } = createHandlerTestHarness(GetUserWithSettings, deps)
+
+    const result = await call({ id: 'u1' })
+
+    expect(result._unsafeUnwrap()).toEqual({ name: 'Ada', theme: 'dark' })
+  })
+
+  it('should bubble callee errors in the caller error union', async () => {
+    const { call } = createHandlerTestHarness(GetUserWithSettings, { ...deps, settingsAvailable: false })
+
+    const missing = await call({ id: 'nobody' })
+    const unavailable = await call({ id: 'u1' })
+    const inactive = await call({ id: 'u2' })
+
+    const tags = [missing, unavailable, inactive].map((result) => {
+      const error = result._unsafeUnwrapErr()
+      switch (error._tag) {
+        case 'ProfileNotFoundError':
+        case 'SettingsUnavailableError':
+        case 'UserInactiveError':
+        case 'InputValidationError':
+        case 'OutputValidationError':
+        case 'HandlerTimeoutError':
+        case 'UnexpectedError':
+        case 'DryRunNotSupportedError':
+          return error._tag
+        default: {
+          const exhaustive: never = error
+          return exhaustive
+        }
+      }
+    })
+    expect(tags).toEqual(['ProfileNotFoundError', 'SettingsUnavailableError', 'SettingsUnavailableError'])
+  })
+
+  it('should add callee errors to the runtime error metadata', () => {
+    const { handler } = createHandlerTestHarness(GetUserWithSettings, deps)
+
+    expect(Object.keys(handler.errors)).toEqual([
+      'UserInactiveError',
+      'ProfileNotFoundError',
+      'InputValidationError',
+      'OutputValidationError',
+      'HandlerTimeoutError',
+      'UnexpectedError',
+      'DryRunNotSupportedError',
+      'SettingsUnavailableError',
+    ])
+    expect(handler.ErrorOutput.safeParse({ code: 'SettingsUnavailableError', message: 'x' }).success).toBe(true)
+    expect(handler.metadata.calls).toEqual(['users.getProfile', 'users.getSettings'])
+  })
+
+  it('should pass the caller context to callees', async () => {
+    const seen = vi.fn()
+    const Whoami = defineHandler("whoami", "Echo the request id")
+      .input(z.object({}))
+      .output(z.string())
+      .withDependencies<object>()
+      .resolver(() => async (_input, _options, ctx) => {
+        seen(ctx.requestId)
+        return ok(String(ctx.requestId))
+      })
+      .build()
+
+    const Outer = defineHandler("outer", "Call whoami")
+      .input(z.object({}))
+      .output(z.string())
+      .calls(Whoami)
+      .withDependencies<object>()
+      .resolver(() => async (_input, _options, ctx) => ctx.call(Whoami, {}))
+      .build()
+
+    const result = await createHandlerTestHarness(Outer, {}).call({}, undefined, { requestId: 'req-1' })
+
+    expect(result._unsafeUnwrap()).toBe('req-1')
+    expect(seen).toHaveBeenCalledWith('req-1')
+  })
+
+  it('should require the caller dependencies to include those of its callees', () => {
+    const GetStatus = defineHandler("users.getStatus", "Get a user's status")
+      .input(z.object({ userId: z.string() }))
+      .output(z.string())
+      .handler<{ statuses: Map<string, string> }>(async (input, ctx) => ok(ctx.deps.statuses.get(input.userId) ?? 'unknown'))
+      .build()
+    const define = () =>
+      defineHandler("users.getWithStatus", "Get a user with status")
+        .input(z.object({ id: z.string() }))
+        .output(z.object({ name: z.string(), status: z.string() }))
+
+    define()
+      .calls(GetProfile, GetStatus)
+      // @ts-expect-error UserDeps lacks the statuses of GetStatus
+      .handler<UserDeps>(async () => ok({ name: 'Ada', status: 'active' }))
+    define()
+      .calls(GetProfile, GetStatus)
+      // @ts-expect-error UserDeps lacks the statuses of GetStatus
+      .$dependsOn<UserDeps>()
+    define()
+      .$dependsOn<UserDeps>()
+      // @ts-expect-error UserDeps lacks the statuses of GetStatus
+      .calls(GetStatus)
+    const valid = define()
+      .calls(GetProfile, GetStatus)
+      .handler<UserDeps & { statuses: Map<string, string> }>(async () => ok({ name: 'Ada', status: 'active' }))
+      .build()
+
+    expect(valid({ ...deps, statuses: new Map() }).metadata.calls).toEqual([
+      'users.getProfile',
+      'users.getStatus',
+    ])
+  })
+})
@@ -0,0 +1,216 @@
+/**
+ * Tests for circuit breakers
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { z } from 'zod'
+import { ok, err } from 'neverthrow'
+import { defineHandler } from '../handler'
+import { defineService } from '../service'
+import { ServiceInspector } from '../introspection'
+import { CircuitOpenError, FramewerkError } from '../errors'
+import { configureFramewerk, resetFramewerkConfig } from '../config'
+import type { CircuitBreakerOptions } from '../circuit-breaker'
+
+class NetworkTimeoutError extends FramewerkError.tagged("NetworkTimeoutError") {
+  static readonly httpStatus = 504
+}
+
+class CurrencyNotFoundError extends FramewerkError.tagged("CurrencyNotFoundError") {
+  static readonly httpStatus = 404
+}
+
+interface RatesDeps {
+  fetchRate: (currency: string) => Promise<number | 'timeout' | 'missing'>
+}
+
+const createGetRate = (options: Partial<CircuitBreakerOptions> = {}) =>
+  defineHandler("rates.get", "Fetch an exchange rate")
+    .input(z.object({ currency: z.string() }))
+    .output(z.object({ rate: z.number() }))
+    .errors([NetworkTimeoutError, CurrencyNotFoundError])
+    .circuitBreaker({ on: [NetworkTimeoutError], minimumCalls: 2, resetTimeoutMs: 1_000, ...options })
+    .handler<RatesDeps>(async (input, ctx) => {
+      const rate = await ctx.deps.fetchRate(input.currency)
+      if (rate === 'timeout') {
+        return err(new NetworkTimeoutError('Rates API timed out'))
+      }
+      if (rate === 'missing') {
+        return err(new CurrencyNotFoundError(`Unknown currency ${input.currency}`))
+      }
+      return ok({ rate })
+    })
+    .build()
+
+const call = (handler: ReturnType<ReturnType<typeof createGetRate>>) =>
+  handler.method({ currency: 'EUR' }, undefined, {})
+
+describe('Circuit breakers', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    resetFramewerkConfig()
+  })
+
+  it('should open after the failure rate is reached and fail fast', async () => {
+    const fetchRate = vi.fn<RatesDeps['fetchRate']>(async () => 'timeout')
+    const getRate = createGetRate()({ fetchRate })
+
+    await call(getRate)
+    await call(getRate)
+    vi.advanceTimersByTime(400)
+    const result = await call(getRate)
+
+    expect(fetchRate).toHaveBeenCalledTimes(2)
+    const error = result._unsafeUnwrapErr()
+    expect(error).toBeInstanceOf(CircuitOpenError)
+    expect(error.message).toBe('Circuit of handler rates.get is open')
+    expect((error as CircuitOpenError).retryAfterMs).toBe(600)
+    expect(getRate.errors.CircuitOpenError!.status).toBe(503)
+  })
+
+  it('should only count the configured errors and thrown exceptions as failures', async () => {
+    const fetchRate = vi.fn<RatesDeps['fetchRate']>(async () => 'missing')
+    const getRate = createGetRate({ failureRate: 0.3 })({ fetchRate })
+
+    for (let i = 0; i < 4; i++) {
+      expect((await call(getRate))._unsafeUnwrapErr()).toBeInstanceOf(CurrencyNotFoundError)
+    }
+
+    fetchRate.mockRejectedValue(new Error('socket hang up'))
+    await expect(call(getRate)).rejects.toThrow('socket hang up')
+    await expect(call(getRate)).rejects.toThrow('socket hang up')
+    expect((await call(getRate))._unsafeUnwrapErr()).toBeInstanceOf(CircuitOpenError)
+  })
+
+  it('should half-open after the reset timeout and close after successful trials', async () => {
+    const fetchRate = vi.fn<RatesDeps['fetchRate']>(async () => 'timeout')
+    const onStateChange = vi.fn()
+    const getRate = createGetRate({ onStateChange })({ fetchRate })
+
+    await call(getRate)
+    await call(getRate)
+    vi.advanceTimersByTime(1_000)
+    fetchRate.mockResolvedValue(1.1)
+
+    expect((await call(getRate))._unsafeUnwrap()).toEqual({ rate: 1.1 })
+    expect((await call(getRate))._unsafeUnwrap()).toEqual({ rate: 1.1 })
+    expect(onStateChange.mock.calls.map(([change]) => change)).toEqual([
+      { operationId: 'rates.get', from: 'closed', to: 'open' },
+      { operationId: 'rates.get', from: 'open', to: 'half-open' },
+      { operationId: 'rates.get', from: 'half-open', to: 'closed' },
+    ])
+  })
+
+  it('should reopen when a trial call fails and limit concurrent trials', async () => {
+    let release: (rate: number | 'timeout') => void = () => {}
+    const fetchRate = vi.fn<RatesDeps['fetchRate']>(async () => 'timeout')
+    const getRate = createGetRate()({ fetchRate })
+
+    await call(getRate)
+    await call(getRate)
+    vi.advanceTimersByTime(1_000)
+    fetchRate.mockImplementation(() => new Promise((resolve) => (release = resolve)))
+
+    const trial = call(getRate)
+    const rejected = await call(getRate)
+    release('timeout')
+
+    expect(rejected._unsafeUnwrapErr()).toBeInstanceOf(CircuitOpenError)
+    expect((await trial)._unsafeUnwrapErr()).toBeInstanceOf(NetworkTimeoutError)
+    expect((await call(getRate))._unsafeUnwrapErr()).toBeInstanceOf(CircuitOpenError)
+  })
+
+  it('should ignore trial calls that outlast the opening they followed', async () => {
+    const releases: Array<(rate: number | 'timeout') => void> = []
+    const fetchRate = vi.fn<RatesDeps['fetchRate']>(async () => 'timeout')
+    const factory = createGetRate({ halfOpenCalls: 2 })
+    const getRate = factory({ fetchRate })
+    const service = defineService("RatesService").$dependsOn<RatesDeps>().addHandler("getRate", getRate.method).build()
+    const started = () => vi.advanceTimersByTimeAsync(0)
+
+    await call(getRate)
+    await call(getRate)
+    vi.advanceTimersByTime(1_000)
+    fetchRate.mockImplementation(() => new Promise((resolve) => releases.push(resolve)))
+    const slowTrial = call(getRate)
+    const failedTrial = call(getRate)
+    await started()
+    releases[1]!('timeout')
+    await failedTrial
+    vi.advanceTimersByTime(1_000)
+    const nextTrial = call(getRate)
+    await started()
+    releases[0]!(1.1)
+    releases[2]!(1.1)
+    await Promise.all([slowTrial, nextTrial])
+
+    // One success in the second half-open period is not enough to close the circuit
+    const { handlers } = new ServiceInspector(service).getEnhancedMetadata()
+    expect(handlers.getRate!.circuitBreaker!.state).toBe('half-open')
+  })
+
+  it('should only evaluate failures within the window', async () => {
+    const fetchRate = vi.fn<RatesDeps['fetchRate']>(async () => 'timeout')
+    const getRate = createGetRate({ windowMs: 100 })({ fetchRate })
+
+    await call(getRate)
+    vi.advanceTimersByTime(100)
+    await call(getRate)
+
+    expect(fetchRate).toHaveBeenCalledTimes(2)
+    expect((await call(getRate))._unsafeUnwrapErr()).toBeInstanceOf(NetworkTimeoutError)
+  })
+
+  it('should share the breaker between instances and report it through introspection', async () => {
+    const onStateChange = vi.fn()
+    configureFramewerk({ circuitBreaker: { onStateChange } })
+    const factory = createGetRate()
+    const fetchRate = vi.fn<RatesDeps['fetchRate']>(async () => 'timeout')
+    const service = defineService("RatesService")
+      .$dependsOn<RatesDeps>()
+      .addHandler("getRate", factory({ fetchRate }).method)
+      .build()
+    const inspector = new ServiceInspector(service)
+
+    await call(factory({ fetchRate }))
+    await call(factory({ fetchRate }))
+
+    expect(onStateChange).toHaveBeenCalledWith({ operationId: 'rates.get', from: 'closed', to: 'open' })
+    expect(inspector.getEnhancedMetadata().handlers.getRate!.circuitBreaker).toEqual({
+      state: 'open',
+      calls: 2,
+      failures: 2,
+      openedAt: new Date(Date.now()).toISOString(),
+    })
+    vi.advanceTimersByTime(1_000)
+    expect(inspector.getEnhancedMetadata().handlers.getRate!.circuitBreaker!.state).toBe('half-open')
+    // Reading the state changes nothing: the transition is reported by the next call
+    expect(onStateChange).toHaveBeenCalledTimes(1)
+    await call(factory({ fetchRate }))
+    expect(onStateChange).toHaveBeenLastCalledWith({ operationId: 'rates.get', from: 'half-open', to: 'open' })
+    expect(factory({ fetchRate }).metadata.circuitBreaker).toEqual({
+      on: ['NetworkTimeoutError'],
+      failureRate: 0.5,
+      minimumCalls: 2,
+      windowMs: 60_000,
+      resetTimeoutMs: 1_000,
+      halfOpenCalls: 1,
+    })
+  })
+
+  it('should reject invalid options and unsupported build paths', () => {
+    expect(() => createGetRate({ failureRate: 0 })).toThrow('Invalid circuit breaker failure rate: 0')
+    expect(() =>
+      defineHandler("rates.count", "Count currencies")
+        .circuitBreaker({ on: [NetworkTimeoutError] })
+        .input(z.object({}))
+        .output(z.number())
+        .handlerSync<object>(() => ok(1))
+        .buildSync()
+    ).toThrow('Handler "rates.count" cannot be built synchronously because it uses .circuitBreaker()')
+  })
+})
@@ -0,0 +1,217 @@
+/**
+ * Tests for concurrency limits
+ */
+
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import { ok } from 'neverthrow'
+import { defineHandler } from '../handler'
+import { defineService } from '../service'
+import { ServiceInspector } from '../introspection'
+import { HandlerOverloadedError, HandlerTimeoutError } from '../errors'
+import type { ConcurrencyOptions } from '../concurrency'
+import { createHandlerTestHarness } from '../testing'
+
+// Resolver calls wait until released
+const createGate = () => {
+  const pending: Array<() => void> = []
+  return {
+    wait: () => new Promise<void>((resolve) => pending.push(resolve)),
+    releaseAll: () => pending.splice(0).forEach((release) => release()),
+    get waiting() {
+      return pending.length
+    },
+  }
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+const createReport = (gate: ReturnType<typeof createGate>, options: ConcurrencyOptions) =>
+  defineHandler("reports.generate", "Generate a report")
+    .input(z.object({ name: z.string() }))
+    .output(z.object({ name: z.string() }))
+    .concurrency(options)
+    .handler<object>(async (input) => {
+      await gate.wait()
+      return ok({ name: input.name })
+    })
+    .build()
+
+describe('Concurrency limits', () => {
+  it('should reject invocations beyond the limit', async () => {
+    const gate = createGate()
+    const { handler: report, call } = createHandlerTestHarness(createReport(gate, { max: 1 }), {})
+
+    const first = call({ name: 'a' })
+    await tick()
+    const second = await call({ name: 'b' })
+    gate.releaseAll()
+
+    expect((await first)._unsafeUnwrap()).toEqual({ name: 'a' })
+    const error = second._unsafeUnwrapErr()
+    expect(error).toBeInstanceOf(HandlerOverloadedError)
+    expect(error.message).toBe('Handler reports.generate is at its concurrency limit')
+    expect(report.errors.HandlerOverloadedError!.status).toBe(503)
+  })
+
+  it('should queue invocations up to the queue size', async () => {
+    const gate = createGate()
+    const { call } = createHandlerTestHarness(createReport(gate, { max: 1, queue: 1 }), {})
+
+    const first = call({ name: 'a' })
+    const second = call({ name: 'b' })
+    const third = await call({ name: 'c' })
+    await tick()
+    expect(gate.waiting).toBe(1)
+
+    gate.releaseAll()
+    await first
+    await tick()
+    gate.releaseAll()
+
+    expect((await second)._unsafeUnwrap()).toEqual({ name: 'b' })
+    expect(third._unsafeUnwrapErr()).toBeInstanceOf(HandlerOverloadedError)
+  })
+
+  it('should fail queued invocations after the queue timeout', async () => {
+    const gate = createGate()
+    const { call } = createHandlerTestHarness(createReport(gate, { max: 1, queue: 5, queueTimeoutMs: 10 }), {})
+
+    const first = call({ name: 'a' })
+    const queued = await call({ name: 'b' })
+    gate.releaseAll()
+    await first
+
+    expect(queued._unsafeUnwrapErr().message).toBe('Handler reports.generate had no free slot within 10ms')
+  })
+
+  it('should fail queued invocations when the caller gives up waiting', async () => {
+    const gate = createGate()
+    const { call } = createHandlerTestHarness(createReport(gate, { max: 1, queue: 5 }), {})
+    const controller = new AbortController()
+
+    const first = call({ name: 'a' })
+    const expired = call({ name: 'b' }, { deadline: Date.now() + 10 })
+    const aborted = call({ name: 'c' }, { signal: controller.signal })
+    await tick()
+    controller.abort()
+
+    expect((await aborted)._unsafeUnwrapErr()).toBeInstanceOf(HandlerTimeoutError)
+    expect((await expired)._unsafeUnwrapErr()).toBeInstanceOf(HandlerTimeoutError)
+    gate.releaseAll()
+    expect((await first)._unsafeUnwrap()).toEqual({ name: 'a' })
+    expect(gate.waiting).toBe(0)
+  })
+
+  it('should keep the slot of a timed-out invocation until its resolver settles', async () => {
+    const gate = createGate()
+    const slowReport = defineHandler("reports.slow", "Generate a slow report")
+      .input(z.object({ name: z.string() }))
+      .output(z.object({ name: z.string() }))
+      .timeout(20)
+      .concurrency({ max: 1 })
+      .handler<object>(async (input) => {
+        await gate.wait()
+        return ok({ name: input.name })
+      })
+      .build()
+    const { call } = createHandlerTestHarness(slowReport, {})
+
+    const timedOut = await call({ name: 'a' })
+    const rejected = await call({ name: 'b' })
+    gate.releaseAll()
+    await tick()
+    const admitted = call({ name: 'c' })
+    await tick()
+    gate.releaseAll()
+
+    expect(timedOut._unsafeUnwrapErr()).toBeInstanceOf(HandlerTimeoutError)
+    expect(rejected._unsafeUnwrapErr()).toBeInstanceOf(HandlerOverloadedError)
+    expect((await admitted)._unsafeUnwrap()).toEqual({ name: 'c' })
+  })
+
+  it('should share the limit between handler instances', async () => {
+    const gate = createGate()
+    const factory = createReport(gate, { max: 1 })
+
+    const first = createHandlerTestHarness(factory, {}).call({ name: 'a' })
+    const second = await createHandlerTestHarness(factory, {}).call({ name: 'b' })
+    gate.releaseAll()
+    await first
+
+    expect(second._unsafeUnwrapErr()).toBeInstanceOf(HandlerOverloadedError)
+    expect(factory({}).metadata.concurrency).toEqual({ max: 1 })
+  })
+
+  it('should limit a whole service and report live counts', async () => {
+    const gate = createGate()
+    const report = createReport(gate, { max: 3, queue: 2 })({})
+    const service = defineService("ReportService")
+      .$dependsOn<object>()
+      .addHandler("generate", report.method)
+      .addHandler("preview", report.method)
+      .concurrency({ max: 2, queue: 1 })
+      .build()
+    const inspector = new ServiceInspector(service)
+    const reports = service.make({})
+
+    const calls = [
+      reports.generate!({ name: 'a' }, undefined, {}),
+      reports.preview!({ name: 'b' }, undefined, {}),
+      reports.generate!({ name: 'c' }, undefined, {}),
+    ]
+    const rejected = await reports.preview!({ name: 'd' }, undefined, {})
+    await tick()
+
+    expect(rejected._unsafeUnwrapErr()).toBeInstanceOf(HandlerOverloadedError)
+    expect((rejected._unsafeUnwrapErr() as HandlerOverloadedError).message).toBe('Service ReportService is at its concurrency limit')
+    expect(inspector.getConcurrencyStats()).toEqual({
+      service: { max: 2, queue: 1, inFlight: 2, queued: 1 },
+      handlers: {
+        generate: { max: 3, queue: 2, inFlight: 2, queued: 0 },
+        preview: { max: 3, queue: 2, inFlight: 2, queued: 0 },
+      },
+    })
+
+    gate.releaseAll()
+    await tick()
+    gate.releaseAll()
+    await Promise.all(calls)
+    expect(inspector.getConcurrencyStats().service).toEqual({ max: 2, queue: 1, inFlight: 0, queued: 0 })
+  })
+
+  it('should fail invocations queued by a service when the caller gives up waiting', async () => {
+    const gate = createGate()
+    const report = createReport(gate, { max: 5 })({})
+    const service = defineService("ReportService")
+      .$dependsOn<object>()
+      .addHandler("generate", report.method)
+      .concurrency({ max: 1, queue: 1 })
+      .build()
+    const inspector = new ServiceInspector(service)
+    const reports = service.make({})
+    const controller = new AbortController()
+
+    const first = reports.generate!({ name: 'a' }, undefined, {})
+    const queued = reports.generate!({ name: 'b' }, { signal: controller.signal }, {})
+    await tick()
+    controller.abort()
+
+    expect((await queued)._unsafeUnwrapErr()).toBeInstanceOf(HandlerTimeoutError)
+    expect(inspector.getConcurrencyStats().service).toEqual({ max: 1, queue: 1, inFlight: 1, queued: 0 })
+    gate.releaseAll()
+    await first
+  })
+
+  it('should reject invalid limits and unsupported build paths', () => {
+    expect(() => createReport(createGate(), { max: 0 })).toThrow('Invalid concurrency limit: 0')
+    expect(() =>
+      defineHandler("reports.count", "Count reports")
+        .concurrency({ max: 1 })
+        .input(z.object({}))
+        .output(z.number())
+        .handlerSync<object>(() => ok(1))
+        .buildSync()
+    ).toThrow('Handler "reports.count" cannot be built synchronously because it uses .concurrency()')
+  })
+})
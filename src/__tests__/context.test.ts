@@ -0,0 +1,123 @@
+/**
+ * Tests for typed context requirements via .context()
+ */
+
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import { ok } from 'neverthrow'
+import { defineHandler } from '../handler'
+import { defineService } from '../service'
+import { ServiceInspector } from '../introspection'
+import { ContextValidationError } from '../errors'
+import { createHandlerTestHarness } from '../testing'
+
+const SessionContext = z.object({
+  session: z.object({ userId: z.string(), scopes: z.array(z.string()) }),
+  locale: z.string().default('en'),
+  traceId: z.string().optional(),
+})
+
+const getProfile = defineHandler("profile.get", "Get the current user's profile")
+  .context(SessionContext)
+  .input(z.object({}))
+  .output(z.object({ userId: z.string(), locale: z.string() }))
+  .handler<object>(async (_input, ctx) => ok({ userId: ctx.session.userId, locale: ctx.locale }))
+  .build()
+
+const session = { userId: 'u1', scopes: [] }
+
+describe('Handler context', () => {
+  it('should pass the parsed context to the resolver', async () => {
+    const result = await createHandlerTestHarness(getProfile, {}).call({}, undefined, { session })
+
+    expect(result._unsafeUnwrap()).toEqual({ userId: 'u1', locale: 'en' })
+  })
+
+  it('should return ContextValidationError when the context does not match', async () => {
+    const result = await createHandlerTestHarness(getProfile, {}).call({}, undefined, { requestId: 'r1' })
+
+    const error = result._unsafeUnwrapErr()
+    expect(error).toBeInstanceOf(ContextValidationError)
+    const { issues } = error as ContextValidationError
+    expect(issues.map((issue) => issue.path)).toEqual([['session']])
+    expect(error.message).toMatch(/^Invalid context: session: /)
+  })
+
+  it('should check the context before the input', async () => {
+    const result = await createHandlerTestHarness(getProfile, {}).call({ unexpected: 1 } as never)
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(ContextValidationError)
+  })
+
+  it('should keep the other context values', async () => {
+    const echo = defineHandler("context.echo", "Echo the request id")
+      .context(z.object({ requestId: z.string() }))
+      .input(z.object({}))
+      .output(z.object({ requestId: z.string(), tenant: z.unknown() }))
+      .handler<object>(async (_input, ctx) => ok({ requestId: ctx.requestId, tenant: ctx.tenant }))
+      .build()
+
+    const result = await createHandlerTestHarness(echo, {}).call({}, undefined, { requestId: 'r1', tenant: 't1' })
+
+    expect(result._unsafeUnwrap()).toEqual({ requestId: 'r1', tenant: 't1' })
+  })
+
+  it('should add ContextValidationError to the error map of these handlers only', () => {
+    const plain = defineHandler("ping", "Ping")
+      .input(z.object({}))
+      .output(z.literal('pong'))
+      .handler<object>(async () => ok('pong' as const))
+      .build()
+
+    expect(getProfile({}).errors.ContextValidationError!.status).toBe(400)
+    expect(Object.keys(plain({}).errors)).not.toContain('ContextValidationError')
+  })
+
+  it('should validate the context of synchronous and streaming handlers', async () => {
+    const whoAmI = defineHandler("profile.whoami", "Current user id")
+      .context(SessionContext)
+      .input(z.object({}))
+      .output(z.string())
+      .handlerSync<object>((_input, ctx) => ok(ctx.session.userId))
+      .buildSync()
+    const scopes = defineHandler("profile.scopes", "Stream the current user's scopes")
+      .context(SessionContext)
+      .input(z.object({}))
+      .output(z.object({}))
+      .stream(z.string())
+      .handlerStream<object>(async function* (_input, ctx) {
+        yield* ctx.session.scopes
+        return ok({})
+      })
+      .buildStream()
+    const streamHarness = createHandlerTestHarness(scopes, {})
+    const syncHarness = createHandlerTestHarness(whoAmI, {})
+
+    const stream = streamHarness.call({}, undefined, { session: { userId: 'u1', scopes: ['a', 'b'] } })
+    const chunks: string[] = []
+    for await (const chunk of stream) {
+      chunks.push(chunk)
+    }
+    const rejected = streamHarness.call({})
+    for await (const chunk of rejected) {
+      chunks.push(chunk)
+    }
+
+    expect(syncHarness.call({}, undefined, { session })._unsafeUnwrap()).toBe('u1')
+    expect(syncHarness.call({})._unsafeUnwrapErr()).toBeInstanceOf(ContextValidationError)
+    expect(chunks).toEqual(['a', 'b'])
+    expect((await rejected.result)._unsafeUnwrapErr()).toBeInstanceOf(ContextValidationError)
+  })
+
+  it('should record the required context keys in metadata and introspection', () => {
+    const service = defineService("ProfileService")
+      .$dependsOn<object>()
+      .addHandler("getProfile", getProfile({}).method)
+      .build()
+
+    const metadata = new ServiceInspector(service).getEnhancedMetadata()
+
+    expect(getProfile({}).metadata.requiredContext).toEqual(['session'])
+    expect(metadata.handlers.getProfile!.requiredContext).toEqual(['session'])
+  })
+})
@@ -54,6 +54,28 @@ describe('Framewerk Core Functionality', () => {
       expect(metadata.handlers).toHaveProperty('getUser')
     })
 
+    it('should accept the dependency type via $dependsOn', async () => {
+      const getUserHandler: HandlerDefinition<
+        { id: string },
+        { id: string; name: string; email: string } | null,
+        Error,
+        TestDeps
+      > = async (input, _options, ctx) => ok(await ctx.database.findUser(input.id))
+
+      const service = defineService("UserService")
+        .$dependsOn<TestDeps>()
+        .addHandler('getUser', getUserHandler)
+        .build()
+
+      const findUser = vi.fn().mockResolvedValue({ id: '1', name: 'Ada', email: 'ada@test.com' })
+      const result = await service
+        .make({ database: { findUser, createUser: vi.fn() }, logger: { info: vi.fn(), error: vi.fn() } })
+        .getUser({ id: '1' })
+
+      expect(result._unsafeUnwrap()).toEqual({ id: '1', name: 'Ada', email: 'ada@test.com' })
+      expect(service.getMetadata().handlers).toHaveProperty('getUser')
+    })
+
     it('should create service instances with working handlers', async () => {
       const mockDatabase = {
         findUser: vi.fn().mockResolvedValue({ id: '123', name: 'John', email: 'john@test.com' }),
@@ -0,0 +1,138 @@
+/**
+ * Tests for defect capture
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { z } from 'zod'
+import { ok, err } from 'neverthrow'
+import { defineHandler } from '../handler'
+import { defineService } from '../service'
+import { configureFramewerk, resetFramewerkConfig } from '../config'
+import { FramewerkError, UnexpectedError } from '../errors'
+
+class OrderNotFoundError extends FramewerkError.tagged("OrderNotFoundError") {
+  static readonly httpStatus = 404
+}
+
+interface OrderDeps {
+  orders: { find: (id: string) => Promise<{ id: string } | undefined> }
+}
+
+const getOrder = defineHandler("orders.get", "Get an order")
+  .input(z.object({ id: z.string() }))
+  .output(z.object({ id: z.string() }))
+  .errors([OrderNotFoundError])
+  .handler<OrderDeps>(async (input, ctx) => {
+    const order = await ctx.deps.orders.find(input.id)
+    return order ? ok(order) : err(new OrderNotFoundError(`Order ${input.id} not found`))
+  })
+  .build()
+
+const brokenDeps: OrderDeps = {
+  orders: {
+    find: async () => {
+      throw new Error('connection refused')
+    },
+  },
+}
+
+describe('Defect capture', () => {
+  let defects: UnexpectedError[]
+
+  beforeEach(() => {
+    resetFramewerkConfig()
+    defects = []
+  })
+
+  it('should let exceptions propagate by default', async () => {
+    await expect(getOrder(brokenDeps).method({ id: 'o1' }, undefined, {})).rejects.toThrow('connection refused')
+  })
+
+  it('should return UnexpectedError with the cause and operationId', async () => {
+    configureFramewerk({ defects: { capture: true, onDefect: (defect) => defects.push(defect) } })
+
+    const result = await getOrder(brokenDeps).method({ id: 'o1' }, undefined, {})
+
+    const error = result._unsafeUnwrapErr()
+    expect(error).toBeInstanceOf(UnexpectedError)
+    const defect = error as UnexpectedError
+    expect(defect.operationId).toBe('orders.get')
+    expect((defect.cause as Error).message).toBe('connection refused')
+    expect(defect.stack).toContain('Caused by: Error: connection refused')
+    expect(defect.toHandlerError()).toEqual({ code: 'UnexpectedError', message: 'Handler orders.get failed unexpectedly' })
+    expect(defects).toEqual([defect])
+  })
+
+  it('should not report declared domain errors', async () => {
+    configureFramewerk({ defects: { capture: true, onDefect: (defect) => defects.push(defect) } })
+
+    const result = await getOrder({ orders: { find: async () => undefined } }).method({ id: 'o1' }, undefined, {})
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(OrderNotFoundError)
+    expect(defects).toEqual([])
+  })
+
+  it('should stay silent without a hook', async () => {
+    configureFramewerk({ defects: { capture: true } })
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    const result = await getOrder(brokenDeps).method({ id: 'o1' }, undefined, {})
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(UnexpectedError)
+    expect(error).not.toHaveBeenCalled()
+    error.mockRestore()
+  })
+
+  it('should declare UnexpectedError on every built handler', () => {
+    expect(getOrder(brokenDeps).errors.UnexpectedError!.status).toBe(500)
+  })
+
+  it('should capture throws of synchronous and streaming handlers', async () => {
+    configureFramewerk({ defects: { capture: true, onDefect: (defect) => defects.push(defect) } })
+    const parse = defineHandler("orders.parse", "Parse an order")
+      .input(z.object({ raw: z.string() }))
+      .output(z.object({ id: z.string() }))
+      .handlerSync<object>((input) => ok(JSON.parse(input.raw)))
+      .buildSync()({})
+    const exportOrders = defineHandler("orders.export", "Export orders")
+      .input(z.object({}))
+      .output(z.object({}))
+      .stream(z.string())
+      .handlerStream<object>(async function* () {
+        yield 'o1'
+        throw new Error('cursor lost')
+      })
+      .buildStream()({})
+
+    const parsed = parse.method({ raw: '{' }, undefined, {})
+    const stream = exportOrders.method({}, undefined, {})
+    const chunks: string[] = []
+    for await (const chunk of stream) {
+      chunks.push(chunk)
+    }
+
+    expect(parsed._unsafeUnwrapErr()).toBeInstanceOf(UnexpectedError)
+    expect(chunks).toEqual(['o1'])
+    expect((await stream.result)._unsafeUnwrapErr()).toBeInstanceOf(UnexpectedError)
+    expect(defects.map((defect) => defect.operationId)).toEqual(['orders.parse', 'orders.export'])
+  })
+
+  it('should capture throws of plain service handlers', async () => {
+    configureFramewerk({ defects: { capture: true, onDefect: (defect) => defects.push(defect) } })
+    const service = defineService("OrderService")
+      .$dependsOn<OrderDeps>()
+      .addHandler("getOrder", getOrder(brokenDeps).method)
+      .addHandler("countOrders", async () => {
+        throw new Error('not implemented')
+      })
+      .build()
+      .make(brokenDeps)
+
+    const count = await service.countOrders!({}, undefined, {})
+    const order = await service.getOrder!({ id: 'o1' }, undefined, {})
+
+    expect((count._unsafeUnwrapErr() as UnexpectedError).operationId).toBe('countOrders')
+    expect(order._unsafeUnwrapErr()).toBeInstanceOf(UnexpectedError)
+    expect(defects.map((defect) => defect.operationId)).toEqual(['countOrders', 'orders.get'])
+  })
+})
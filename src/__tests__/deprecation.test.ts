@@ -0,0 +1,175 @@
+/**
+ * Tests for handler deprecation
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { z } from 'zod'
+import { ok } from 'neverthrow'
+import { defineHandler } from '../handler'
+import { defineService } from '../service'
+import { MetadataUtils, ServiceInspector } from '../introspection'
+import { configureFramewerk, resetFramewerkConfig } from '../config'
+import { resetDeprecationWarnings, type DeprecationWarning } from '../deprecation'
+import { HandlerSunsetError, RateLimitError } from '../errors'
+import { InMemoryTokenBucketStore } from '../rate-limit'
+
+const legacyPing = defineHandler("ping.legacy", "Legacy ping")
+  .deprecated({ since: "2.0.0", reason: "Renamed", replacement: "ping" })
+  .input(z.object({}))
+  .output(z.literal('pong'))
+  .handler<object>(async () => ok('pong' as const))
+  .build()
+
+const sunsetPing = (sunset: Date) =>
+  defineHandler("ping.sunset", "Sunset ping")
+    .deprecated({ since: "1.0.0", replacement: "ping", sunset })
+    .input(z.object({}))
+    .output(z.literal('pong'))
+    .handler<object>(async () => ok('pong' as const))
+    .build()
+
+describe('Handler deprecation', () => {
+  let warnings: DeprecationWarning[]
+
+  beforeEach(() => {
+    resetFramewerkConfig()
+    resetDeprecationWarnings()
+    warnings = []
+    configureFramewerk({ deprecation: { onWarning: (warning) => warnings.push(warning) } })
+  })
+
+  it('should expose deprecation details in handler metadata', () => {
+    const handler = sunsetPing(new Date('2030-01-01T00:00:00Z'))({})
+
+    expect(handler.metadata.deprecated).toEqual({
+      since: '1.0.0',
+      reason: undefined,
+      replacement: 'ping',
+      sunset: '2030-01-01T00:00:00.000Z',
+    })
+    expect(Object.keys(handler.errors)).toContain('HandlerSunsetError')
+    expect(Object.keys(legacyPing({}).errors)).not.toContain('HandlerSunsetError')
+  })
+
+  it('should warn once per caller', async () => {
+    const handler = legacyPing({})
+
+    await handler.method({}, undefined, { caller: 'ios-app' })
+    await handler.method({}, undefined, { caller: 'ios-app' })
+    await handler.method({}, undefined, { caller: 'web' })
+    await handler.method({}, undefined, {})
+
+    expect(warnings.map((warning) => warning.caller)).toEqual(['ios-app', 'web', 'anonymous'])
+    expect(warnings[0]).toMatchObject({ operationId: 'ping.legacy', deprecation: { since: '2.0.0', replacement: 'ping' } })
+  })
+
+  it('should identify callers with the configured function', async () => {
+    configureFramewerk({
+      deprecation: {
+        caller: (options) => options?.requestMetadata?.client as string,
+        onWarning: (warning) => warnings.push(warning),
+      },
+    })
+
+    await legacyPing({}).method({}, { requestMetadata: { client: 'cli' } }, {})
+    await legacyPing({}).method({}, { requestMetadata: { client: 'cli' } }, {})
+
+    expect(warnings.map((warning) => warning.caller)).toEqual(['cli'])
+  })
+
+  it('should stay silent without a warning hook', async () => {
+    configureFramewerk({ deprecation: { onWarning: undefined } })
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+
+    const result = await legacyPing({}).method({}, undefined, {})
+
+    expect(result._unsafeUnwrap()).toBe('pong')
+    expect(warn).not.toHaveBeenCalled()
+    warn.mockRestore()
+  })
+
+  it('should keep working before the sunset date', async () => {
+    const result = await sunsetPing(new Date(Date.now() + 60_000))({}).method({}, undefined, {})
+
+    expect(result._unsafeUnwrap()).toBe('pong')
+  })
+
+  it('should return HandlerSunsetError after the sunset date', async () => {
+    const handler = sunsetPing(new Date(Date.now() - 1000))({})
+
+    const result = await handler.method({}, undefined, {})
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(HandlerSunsetError)
+    expect(handler.errors.HandlerSunsetError!.status).toBe(410)
+    expect(warnings).toEqual([])
+  })
+
+  it('should reject calls after the sunset without using up rate limit tokens', async () => {
+    const store = new InMemoryTokenBucketStore()
+    const definePing = (sunset: string) =>
+      defineHandler("ping.limited", "Limited ping")
+        .deprecated({ since: "1.0.0", sunset })
+        .rateLimit({ requests: 1, windowMs: 60_000, key: 'global', store })
+        .input(z.object({}))
+        .output(z.literal('pong'))
+        .handler<object>(async () => ok('pong' as const))
+        .build()({})
+
+    const retired = await definePing('2000-01-01').method({}, undefined, {})
+    const first = await definePing('2100-01-01').method({}, undefined, {})
+    const second = await definePing('2100-01-01').method({}, undefined, {})
+
+    expect(retired._unsafeUnwrapErr()).toBeInstanceOf(HandlerSunsetError)
+    expect(first._unsafeUnwrap()).toBe('pong')
+    expect(second._unsafeUnwrapErr()).toBeInstanceOf(RateLimitError)
+    expect(warnings).toHaveLength(1)
+  })
+
+  it('should forget the least recently seen callers beyond 10,000', async () => {
+    const handler = legacyPing({})
+
+    await handler.method({}, undefined, { caller: 'first' })
+    for (let index = 0; index < 10_000; index++) {
+      await handler.method({}, undefined, { caller: `caller-${index}` })
+    }
+    await handler.method({}, undefined, { caller: 'caller-9999' })
+    await handler.method({}, undefined, { caller: 'first' })
+
+    expect(warnings).toHaveLength(10_002)
+    expect(warnings[10_001]!.caller).toBe('first')
+  })
+
+  it('should enforce the sunset on synchronous handlers', () => {
+    const handler = defineHandler("ping.sync", "Sync ping")
+      .deprecated({ since: "1.0.0", sunset: "2000-01-01" })
+      .input(z.object({}))
+      .output(z.literal('pong'))
+      .handlerSync<object>(() => ok('pong' as const))
+      .buildSync()({})
+
+    expect(handler.method({}, undefined, {})._unsafeUnwrapErr()).toBeInstanceOf(HandlerSunsetError)
+  })
+
+  it('should reject invalid sunset dates', () => {
+    expect(() => defineHandler("ping", "Ping").deprecated({ since: "1.0.0", sunset: "soon" })).toThrow(
+      'Invalid sunset date: soon'
+    )
+  })
+
+  it('should flow into introspection and OpenAPI', () => {
+    const service = defineService("PingService")
+      .$dependsOn<object>()
+      .addHandler("legacyPing", legacyPing({}).method)
+      .addHandler("ping", async () => ok('pong'))
+      .build()
+    const inspector = new ServiceInspector(service)
+
+    const deprecated = MetadataUtils.findDeprecatedHandlers(inspector.getEnhancedMetadata())
+    const paths = inspector.generateOpenAPI().paths as Record<string, { post: { deprecated?: boolean } }>
+
+    expect(deprecated.map((handler) => handler.name)).toEqual(['legacyPing'])
+    expect(deprecated[0]!.deprecated).toMatchObject({ since: '2.0.0', reason: 'Renamed', replacement: 'ping' })
+    expect(paths['/legacyPing']!.post.deprecated).toBe(true)
+    expect(paths['/ping']!.post.deprecated).toBeUndefined()
+  })
+})
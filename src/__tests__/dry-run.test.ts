@@ -0,0 +1,144 @@
+/**
+ * Tests for dry-run mode
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { z } from 'zod'
+import { ok } from 'neverthrow'
+import { defineHandler, type HandlerFactoryErrors } from '../handler'
+import { defineService } from '../service'
+import { ServiceInspector } from '../introspection'
+import { DryRunNotSupportedError } from '../errors'
+import { InMemoryIdempotencyStore } from '../idempotency'
+
+interface AccountDeps {
+  close: (id: string) => Promise<void>
+}
+
+const CloseInput = z.object({ id: z.string() })
+const CloseOutput = z.object({ id: z.string(), closed: z.boolean() })
+
+const createCloseAccount = () =>
+  defineHandler("accounts.close", "Close an account")
+    .input(CloseInput)
+    .output(CloseOutput)
+    .supportsDryRun()
+    .handler<AccountDeps>(async (input, ctx) => {
+      if (ctx.options?.dryRun) {
+        return ok({ id: input.id, closed: false })
+      }
+      await ctx.deps.close(input.id)
+      return ok({ id: input.id, closed: true })
+    })
+
+const createDeleteAccount = () =>
+  defineHandler("accounts.delete", "Delete an account")
+    .input(CloseInput)
+    .output(z.object({ id: z.string() }))
+    .handler<AccountDeps>(async (input, ctx) => {
+      await ctx.deps.close(input.id)
+      return ok({ id: input.id })
+    })
+
+describe('Dry runs', () => {
+  it('should let marked handlers preview their effects', async () => {
+    const deps = { close: vi.fn(async () => {}) }
+    const closeAccount = createCloseAccount().build()(deps)
+
+    const preview = await closeAccount.method({ id: 'a1' }, { dryRun: true }, {})
+    const closed = await closeAccount.method({ id: 'a1' }, undefined, {})
+
+    expect(preview._unsafeUnwrap()).toEqual({ id: 'a1', closed: false })
+    expect(closed._unsafeUnwrap()).toEqual({ id: 'a1', closed: true })
+    expect(deps.close).toHaveBeenCalledTimes(1)
+    expect(closeAccount.metadata.supportsDryRun).toBe(true)
+  })
+
+  it('should only declare DryRunNotSupportedError on handlers that can return it', () => {
+    const CloseAccount = createCloseAccount().build()
+    const DeleteAccount = createDeleteAccount().build()
+    const closeErrors: DryRunNotSupportedError extends HandlerFactoryErrors<typeof CloseAccount> ? 'declared' : 'absent' =
+      'absent'
+    const deleteErrors: DryRunNotSupportedError extends HandlerFactoryErrors<typeof DeleteAccount> ? 'declared' : 'absent' =
+      'declared'
+
+    expect([closeErrors, deleteErrors]).toEqual(['absent', 'declared'])
+    expect(CloseAccount({ close: async () => {} }).errors.DryRunNotSupportedError).toBeUndefined()
+    expect(DeleteAccount({ close: async () => {} }).errors.DryRunNotSupportedError).toBeDefined()
+  })
+
+  it('should refuse dry runs of unmarked handlers without running them', async () => {
+    const deps = { close: vi.fn(async () => {}) }
+    const deleteAccount = createDeleteAccount().build()(deps)
+
+    const result = await deleteAccount.method({ id: 'a1' }, { dryRun: true }, {})
+
+    const error = result._unsafeUnwrapErr()
+    expect(error).toBeInstanceOf(DryRunNotSupportedError)
+    expect(error.message).toBe('Handler accounts.delete does not support dry runs')
+    expect(deleteAccount.errors.DryRunNotSupportedError!.status).toBe(400)
+    expect(deps.close).not.toHaveBeenCalled()
+  })
+
+  it('should refuse dry runs of unmarked synchronous handlers', () => {
+    const count = defineHandler("accounts.count", "Count accounts")
+      .input(z.object({}))
+      .output(z.number())
+      .handlerSync<object>(() => ok(3))
+      .buildSync()({})
+
+    expect(count.method({}, { dryRun: true }, {})._unsafeUnwrapErr()).toBeInstanceOf(DryRunNotSupportedError)
+  })
+
+  it('should carry dry runs into nested handler calls', async () => {
+    const deps = { close: vi.fn(async () => {}) }
+    const CloseAccount = createCloseAccount().build()
+    const DeleteAccount = createDeleteAccount().build()
+    const offboard = defineHandler("accounts.offboard", "Offboard a customer")
+      .input(CloseInput)
+      .output(z.object({ closed: z.boolean(), deleted: z.string() }))
+      .calls(CloseAccount, DeleteAccount)
+      .supportsDryRun()
+      .handler<AccountDeps>(async (input, ctx) => {
+        const closed = await ctx.call(CloseAccount, input)
+        const deleted = await ctx.call(DeleteAccount, input)
+        return ok({
+          closed: closed._unsafeUnwrap().closed,
+          deleted: deleted.isErr() ? deleted.error._tag : 'deleted',
+        })
+      })
+      .build()(deps)
+
+    const preview = await offboard.method({ id: 'a1' }, { dryRun: true }, {})
+
+    expect(preview._unsafeUnwrap()).toEqual({ closed: false, deleted: 'DryRunNotSupportedError' })
+    expect(deps.close).not.toHaveBeenCalled()
+    // Passed through from the callee that does not support dry runs
+    expect(offboard.errors.DryRunNotSupportedError).toBeDefined()
+  })
+
+  it('should not store dry-run results for idempotency', async () => {
+    const deps = { close: vi.fn(async () => {}) }
+    const closeAccount = createCloseAccount().idempotent({ store: new InMemoryIdempotencyStore() }).build()(deps)
+
+    await closeAccount.method({ id: 'a1' }, { dryRun: true, idempotencyKey: 'k1' }, {})
+    const closed = await closeAccount.method({ id: 'a1' }, { idempotencyKey: 'k1' }, {})
+
+    expect(closed._unsafeUnwrap()).toEqual({ id: 'a1', closed: true })
+    expect(deps.close).toHaveBeenCalledTimes(1)
+  })
+
+  it('should report which handlers support dry runs', () => {
+    const deps = { close: async () => {} }
+    const service = defineService("AccountService")
+      .$dependsOn<AccountDeps>()
+      .addHandler("close", createCloseAccount().build()(deps).method)
+      .addHandler("delete", createDeleteAccount().build()(deps).method)
+      .build()
+
+    const { handlers } = new ServiceInspector(service).getEnhancedMetadata()
+
+    expect(handlers.close!.supportsDryRun).toBe(true)
+    expect(handlers.delete!.supportsDryRun).toBe(false)
+  })
+})
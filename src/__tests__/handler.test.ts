@@ -0,0 +1,395 @@
+/**
+ * Tests for the runtime behaviour of built handlers
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { z } from 'zod'
+import { ok, err } from 'neverthrow'
+import { defineHandler } from '../handler'
+import { UserNotFoundError, ValidationError, InputValidationError, OutputValidationError, HandlerTimeoutError } from '../errors'
+import { defineService } from '../service'
+import { configureFramewerk, resetFramewerkConfig } from '../config'
+
+const createGetUser = () =>
+  defineHandler("getUser", "Get a user by ID")
+    .input(z.object({ userId: z.string().min(3), profile: z.object({ age: z.number() }).optional() }))
+    .output(z.object({ id: z.string(), name: z.string() }))
+    .errors([UserNotFoundError] as const)
+    .withDependencies<{ findUser: (id: string) => Promise<{ id: string; name: string } | null> }>()
+    .resolver((deps) => async (input) => {
+      const user = await deps.findUser(input.userId)
+      if (!user) {
+        return err(new UserNotFoundError(input.userId))
+      }
+      return ok(user)
+    })
+    .build()
+
+describe('Built Handlers', () => {
+  describe('Input validation', () => {
+    it('should return an InputValidationError instead of throwing', async () => {
+      const findUser = vi.fn()
+      const handler = createGetUser()({ findUser })
+
+      const result = await handler.method({ userId: 'ab', profile: { age: 'old' } } as never, undefined, {})
+
+      expect(result.isErr()).toBe(true)
+      const error = result._unsafeUnwrapErr()
+      expect(error).toBeInstanceOf(InputValidationError)
+      expect(error._tag).toBe('InputValidationError')
+      if (error._tag === 'InputValidationError') {
+        expect(error.issues.map((issue) => issue.path)).toEqual([['userId'], ['profile', 'age']])
+        expect(error.issues[0]!.code).toBe('too_small')
+      }
+      expect(findUser).not.toHaveBeenCalled()
+    })
+
+    it('should pass parsed input through to the resolver', async () => {
+      const findUser = vi.fn().mockResolvedValue({ id: 'abc', name: 'Ada' })
+      const handler = createGetUser()({ findUser })
+
+      const result = await handler.method({ userId: 'abc' }, undefined, {})
+
+      expect(result._unsafeUnwrap()).toEqual({ id: 'abc', name: 'Ada' })
+      expect(findUser).toHaveBeenCalledWith('abc')
+    })
+
+    it('should add InputValidationError to errors map and ErrorOutput', () => {
+      const handler = createGetUser()({ findUser: vi.fn() })
+
+      expect(Object.keys(handler.errors)).toEqual(['UserNotFoundError', 'InputValidationError', 'OutputValidationError', 'HandlerTimeoutError', 'UnexpectedError', 'DryRunNotSupportedError'])
+      expect(handler.errors.InputValidationError!.status).toBe(422)
+      expect(handler.metadata.errors.map((e) => e.code)).toContain('InputValidationError')
+
+      const serialized = new InputValidationError([
+        { path: ['userId'], message: 'Too short', code: 'too_small' },
+      ]).toHandlerError()
+      expect(handler.ErrorOutput.parse(serialized)).toEqual(serialized)
+    })
+
+    it('should not duplicate InputValidationError when declared explicitly', () => {
+      const handler = defineHandler("echo", "Echo")
+        .input(z.string())
+        .output(z.string())
+        .errors([InputValidationError] as const)
+        .withDependencies<object>()
+        .resolver(() => async (input) => ok(input))
+        .build()({})
+
+      expect(handler.metadata.errors.filter((e) => e.code === 'InputValidationError')).toHaveLength(1)
+    })
+  })
+
+  describe('Output validation', () => {
+    const createLeakyHandler = () =>
+      defineHandler("getProfile", "Get a profile")
+        .input(z.object({ id: z.string() }))
+        .output(z.object({ id: z.string(), name: z.string() }))
+        .withDependencies<{ load: () => Record<string, unknown> }>()
+        .resolver((deps) => async () => ok(deps.load() as { id: string; name: string }))
+        .build()
+
+    afterEach(() => {
+      resetFramewerkConfig()
+    })
+
+    it('should not check output by default', async () => {
+      const handler = createLeakyHandler()({ load: () => ({ id: '1' }) })
+
+      const result = await handler.method({ id: '1' }, undefined, {})
+
+      expect(result._unsafeUnwrap()).toEqual({ id: '1' })
+    })
+
+    it('should return an OutputValidationError in strict mode', async () => {
+      const handler = createLeakyHandler()({ load: () => ({ id: '1' }) })
+      configureFramewerk({ outputValidation: { mode: 'strict' } })
+
+      const result = await handler.method({ id: '1' }, undefined, {})
+
+      const error = result._unsafeUnwrapErr()
+      expect(error).toBeInstanceOf(OutputValidationError)
+      if (error._tag === 'OutputValidationError') {
+        expect(error.issues[0]!.path).toEqual(['name'])
+      }
+    })
+
+    it('should report through the warning hook in warn mode', async () => {
+      const onWarning = vi.fn()
+      const handler = defineHandler("getProfile", "Get a profile")
+        .input(z.object({ id: z.string() }))
+        .output(z.object({ id: z.string(), name: z.string() }))
+        .outputValidation({ mode: 'warn', onWarning })
+        .withDependencies<object>()
+        .resolver(() => async (input) => ok({ id: input.id } as { id: string; name: string }))
+        .build()({})
+
+      const result = await handler.method({ id: '1' }, undefined, {})
+
+      expect(result._unsafeUnwrap()).toEqual({ id: '1' })
+      expect(onWarning).toHaveBeenCalledWith({
+        operationId: 'getProfile',
+        issues: [expect.objectContaining({ path: ['name'] })],
+        output: { id: '1' },
+      })
+    })
+
+    it('should stay silent in warn mode without a warning hook', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+      const handler = createLeakyHandler()({ load: () => ({ id: '1' }) })
+      configureFramewerk({ outputValidation: { mode: 'warn' } })
+
+      const result = await handler.method({ id: '1' }, undefined, {})
+
+      expect(result._unsafeUnwrap()).toEqual({ id: '1' })
+      expect(warn).not.toHaveBeenCalled()
+      warn.mockRestore()
+    })
+
+    it('should strip unknown keys when configured', async () => {
+      const handler = createLeakyHandler()({ load: () => ({ id: '1', name: 'Ada', passwordHash: 'x' }) })
+      configureFramewerk({ outputValidation: { mode: 'strict', stripUnknown: true } })
+
+      const result = await handler.method({ id: '1' }, undefined, {})
+
+      expect(result._unsafeUnwrap()).toEqual({ id: '1', name: 'Ada' })
+    })
+
+    it('should strip unknown keys when output validation is off', async () => {
+      const handler = createLeakyHandler()({ load: () => ({ id: '1', name: 'Ada', passwordHash: 'x' }) })
+      configureFramewerk({ outputValidation: { stripUnknown: true } })
+
+      const result = await handler.method({ id: '1' }, undefined, {})
+
+      expect(result._unsafeUnwrap()).toEqual({ id: '1', name: 'Ada' })
+    })
+
+    it('should let handler settings override the global mode', async () => {
+      configureFramewerk({ outputValidation: { mode: 'strict' } })
+      const handler = defineHandler("getProfile", "Get a profile")
+        .input(z.object({ id: z.string() }))
+        .output(z.object({ id: z.string(), name: z.string() }))
+        .outputValidation({ mode: 'off' })
+        .withDependencies<object>()
+        .resolver(() => async (input) => ok({ id: input.id } as { id: string; name: string }))
+        .build()({})
+
+      const result = await handler.method({ id: '1' }, undefined, {})
+
+      expect(result.isOk()).toBe(true)
+    })
+  })
+
+  describe('Deadlines and cancellation', () => {
+    const sleep = (ms: number, signal?: AbortSignal) =>
+      new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, ms)
+        signal?.addEventListener('abort', () => {
+          clearTimeout(timer)
+          reject(signal.reason)
+        })
+      })
+
+    const createSlowHandler = (delayMs: number, timeoutMs?: number, seen: Array<AbortSignal | undefined> = []) => {
+      const builder = defineHandler("slow", "Slow handler")
+        .input(z.object({}))
+        .output(z.string())
+      return (timeoutMs === undefined ? builder : builder.timeout(timeoutMs))
+        .withDependencies<object>()
+        .resolver(() => async (_input, options) => {
+          seen.push(options?.signal)
+          await sleep(delayMs).catch(() => undefined)
+          return ok('done')
+        })
+        .build()({})
+    }
+
+    it('should return a HandlerTimeoutError when the handler timeout elapses', async () => {
+      const seen: Array<AbortSignal | undefined> = []
+      const handler = createSlowHandler(200, 10, seen)
+
+      const result = await handler.method({}, undefined, {})
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(HandlerTimeoutError)
+      expect(seen[0]?.aborted).toBe(true)
+      expect(handler.metadata.timeoutMs).toBe(10)
+      expect(handler.errors.HandlerTimeoutError!.status).toBe(504)
+    })
+
+    it('should fail fast when the deadline has already passed', async () => {
+      const seen: Array<AbortSignal | undefined> = []
+      const handler = createSlowHandler(0, undefined, seen)
+
+      const result = await handler.method({}, { deadline: Date.now() - 1 }, {})
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(HandlerTimeoutError)
+      expect(seen).toHaveLength(0)
+    })
+
+    it('should stop waiting when the caller aborts the signal', async () => {
+      const controller = new AbortController()
+      const handler = createSlowHandler(200)
+
+      const pending = handler.method({}, { signal: controller.signal }, {})
+      controller.abort()
+      const result = await pending
+
+      expect(result._unsafeUnwrapErr().message).toBe('Handler slow was aborted')
+    })
+
+    it('should complete normally within the deadline', async () => {
+      const handler = createSlowHandler(0, 1000)
+
+      const result = await handler.method({}, undefined, {})
+
+      expect(result._unsafeUnwrap()).toBe('done')
+    })
+
+    it('should propagate the remaining deadline into nested handler calls', async () => {
+      const innerDeadlines: Array<number | undefined> = []
+      const inner = defineHandler("inner", "Inner handler")
+        .input(z.object({}))
+        .output(z.string())
+        .timeout(5000)
+        .withDependencies<object>()
+        .resolver(() => async (_input, options) => {
+          innerDeadlines.push(options?.deadline)
+          await sleep(200, options?.signal).catch(() => undefined)
+          return ok('inner')
+        })
+        .build()({})
+
+      let outerDeadline: number | undefined
+      const outer = defineHandler("outer", "Outer handler")
+        .input(z.object({}))
+        .output(z.string())
+        .errors([HandlerTimeoutError] as const)
+        .timeout(20)
+        .withDependencies<object>()
+        .resolver(() => async (_input, options) => {
+          outerDeadline = options?.deadline
+          const innerResult = await inner.method({}, undefined, {})
+          if (innerResult.isErr()) {
+            return err(new HandlerTimeoutError('outer'))
+          }
+          return ok('outer')
+        })
+        .build()({})
+
+      const startedAt = Date.now()
+      const result = await outer.method({}, undefined, {})
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(HandlerTimeoutError)
+      expect(Date.now() - startedAt).toBeLessThan(150)
+      expect(innerDeadlines).toEqual([outerDeadline])
+    })
+  })
+
+  describe('Unified handler API', () => {
+    interface UserDeps {
+      findUser: (id: string) => Promise<{ id: string; name: string } | null>
+    }
+
+    const createGetUserWithHandler = () =>
+      defineHandler("getUser", "Get a user by ID")
+        .input(z.object({ userId: z.string().min(3), profile: z.object({ age: z.number() }).optional() }))
+        .output(z.object({ id: z.string(), name: z.string() }))
+        .errors([UserNotFoundError] as const)
+        .handler<UserDeps>(async (input, ctx) => {
+          const user = await ctx.deps.findUser(input.userId)
+          if (!user) {
+            return err(new UserNotFoundError(input.userId))
+          }
+          return ok(user)
+        })
+        .build()
+
+    it('should behave like the equivalent resolver-based handler', async () => {
+      const findUser = vi.fn(async (id: string) => (id === 'abc' ? { id, name: 'Ada' } : null))
+      const viaHandler = createGetUserWithHandler()({ findUser })
+      const viaResolver = createGetUser()({ findUser })
+
+      for (const input of [{ userId: 'abc' }, { userId: 'xyz' }, { userId: 'a' }]) {
+        const [a, b] = await Promise.all([
+          viaHandler.method(input, undefined, {}),
+          viaResolver.method(input, undefined, {}),
+        ])
+        expect(a.isOk()).toBe(b.isOk())
+        expect(a.isOk() ? a.value : a.error._tag).toEqual(b.isOk() ? b.value : b.error._tag)
+      }
+      expect(Object.keys(viaHandler.errors)).toEqual(Object.keys(viaResolver.errors))
+      expect(viaHandler.metadata).toEqual(viaResolver.metadata)
+    })
+
+    it('should expose options and the request context on ctx', async () => {
+      const seen = vi.fn()
+      const handler = defineHandler("whoami", "Echo the caller")
+        .input(z.object({}))
+        .output(z.string())
+        .$dependsOn<{ prefix: string }>()
+        .handler(async (_input, ctx) => {
+          seen(ctx.options?.requestMetadata, ctx.requestId)
+          return ok(`${ctx.deps.prefix}:${String(ctx.requestId)}`)
+        })
+        .build()({ prefix: 'user' })
+
+      const result = await handler.method({}, { requestMetadata: { source: 'test' } }, { requestId: 'r1' })
+
+      expect(result._unsafeUnwrap()).toBe('user:r1')
+      expect(seen).toHaveBeenCalledWith({ source: 'test' }, 'r1')
+    })
+  })
+
+  describe('Synchronous handlers', () => {
+    const createQuotePrice = () =>
+      defineHandler("pricing.quote", "Quote a price")
+        .input(z.object({ quantity: z.number().int().positive(), unitPrice: z.number() }))
+        .output(z.object({ total: z.number() }))
+        .errors([ValidationError] as const)
+        .handlerSync<{ discount: number }>((input, ctx) => {
+          if (input.quantity > 1000) {
+            return err(new ValidationError('quantity', 'too large'))
+          }
+          return ok({ total: input.quantity * input.unitPrice * (1 - ctx.deps.discount) })
+        })
+
+    it('should return results without a Promise', () => {
+      const handler = createQuotePrice().buildSync()({ discount: 0.5 })
+
+      const result = handler.method({ quantity: 4, unitPrice: 10 }, undefined, {})
+
+      expect(result).not.toBeInstanceOf(Promise)
+      expect(result._unsafeUnwrap()).toEqual({ total: 20 })
+      expect(handler.metadata.sync).toBe(true)
+    })
+
+    it('should keep input validation and error metadata', () => {
+      const handler = createQuotePrice().buildSync()({ discount: 0 })
+
+      const invalid = handler.method({ quantity: -1, unitPrice: 10 }, undefined, {})
+      const tooLarge = handler.method({ quantity: 5000, unitPrice: 10 }, undefined, {})
+
+      expect(invalid._unsafeUnwrapErr()).toBeInstanceOf(InputValidationError)
+      expect(tooLarge._unsafeUnwrapErr()).toBeInstanceOf(ValidationError)
+      expect(Object.keys(handler.errors)).toEqual(['ValidationError', 'InputValidationError', 'OutputValidationError', 'UnexpectedError', 'DryRunNotSupportedError'])
+    })
+
+    it('should be awaitable when registered in a service or built asynchronously', async () => {
+      const syncHandler = createQuotePrice().buildSync()({ discount: 0 })
+      const asyncHandler = createQuotePrice().build()({ discount: 0 })
+
+      const service = defineService("PricingService")
+        .$dependsOn<object>()
+        .addHandler('quote', syncHandler.method)
+        .build()
+        .make({})
+
+      expect((await service.quote({ quantity: 2, unitPrice: 3 }))._unsafeUnwrap()).toEqual({ total: 6 })
+      expect((await asyncHandler.method({ quantity: 2, unitPrice: 3 }, undefined, {}))._unsafeUnwrap()).toEqual({ total: 6 })
+    })
+
+    it('should reject async-only features', () => {
+      expect(() => createQuotePrice().timeout(100).buildSync()).toThrow(/\.timeout\(\)/)
+    })
+  })
+})
@@ -0,0 +1,224 @@
+/**
+ * Tests for lifecycle hooks
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { z } from 'zod'
+import { ok, err } from 'neverthrow'
+import { defineHandler } from '../handler'
+import { defineService } from '../service'
+import { FramewerkError, UnexpectedError } from '../errors'
+import { configureFramewerk, resetFramewerkConfig } from '../config'
+import { InMemoryTransactionManager } from '../transactions'
+import type { LifecycleHooks } from '../hooks'
+
+class InsufficientFundsError extends FramewerkError.tagged("InsufficientFundsError") {
+  static readonly httpStatus = 402
+}
+
+interface PaymentDeps {
+  transfer: (amount: number) => Promise<'done' | 'insufficient'>
+}
+
+const TransferInput = z.object({ amount: z.number().positive() })
+const Transfer = z.object({ amount: z.number() })
+
+const createTransfer = (hooks: LifecycleHooks<unknown, z.infer<typeof Transfer>, { _tag: string }>) =>
+  defineHandler("payments.transfer", "Transfer money")
+    .input(TransferInput)
+    .output(Transfer)
+    .errors([InsufficientFundsError])
+    .hooks(hooks)
+    .handler<PaymentDeps>(async (input, ctx) => {
+      const outcome = await ctx.deps.transfer(input.amount)
+      return outcome === 'done' ? ok({ amount: input.amount }) : err(new InsufficientFundsError('Insufficient funds'))
+    })
+    .build()
+
+describe('Lifecycle hooks', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    resetFramewerkConfig()
+  })
+
+  it('should report the start and success of an invocation with its stats', async () => {
+    vi.useFakeTimers()
+    const events: unknown[] = []
+    const transfer = createTransfer({
+      onStart: (input, ctx) => void events.push(['start', input, ctx.requestId]),
+      onSuccess: (output, _ctx, stats) => void events.push(['success', output, stats]),
+      onFinally: (_ctx, { durationMs }) => void events.push(['finally', durationMs]),
+    })({
+      transfer: async () => {
+        vi.advanceTimersByTime(25)
+        return 'done'
+      },
+    })
+
+    await transfer.method({ amount: 10 }, undefined, { requestId: 'r1' })
+
+    expect(events).toEqual([
+      ['start', { amount: 10 }, 'r1'],
+      ['success', { amount: 10 }, { durationMs: 25, attempts: 1 }],
+      ['finally', 25],
+    ])
+  })
+
+  it('should pass errors typed as the handler error union', async () => {
+    const handled: string[] = []
+    const transfer = defineHandler("payments.transfer", "Transfer money")
+      .input(TransferInput)
+      .output(Transfer)
+      .errors([InsufficientFundsError])
+      .hooks({
+        onError: (error) => {
+          switch (error._tag) {
+            case 'InsufficientFundsError':
+            case 'InputValidationError':
+            case 'OutputValidationError':
+            case 'HandlerTimeoutError':
+            case 'UnexpectedError':
+            case 'DryRunNotSupportedError':
+              handled.push(error._tag)
+              break
+            default: {
+              const exhaustive: never = error
+              throw new Error(`Unhandled error ${String(exhaustive)}`)
+            }
+          }
+        },
+      })
+      .handler<PaymentDeps>(async () => err(new InsufficientFundsError('Insufficient funds')))
+      .build()({ transfer: async () => 'done' })
+
+    await transfer.method({ amount: 10 }, undefined, {})
+    await transfer.method({ amount: -1 }, undefined, {})
+
+    expect(handled).toEqual(['InsufficientFundsError', 'InputValidationError'])
+  })
+
+  it('should only build when the hooks accept the errors added after them', () => {
+    const define = () =>
+      defineHandler("payments.transfer", "Transfer money")
+        .input(TransferInput)
+        .output(Transfer)
+        .errors([InsufficientFundsError])
+
+    // @ts-expect-error the hooks miss the AuthenticationError added by .auth()
+    define()
+      .hooks({ onError: (error) => void error._tag })
+      .auth({ required: true })
+      .handler<PaymentDeps>(async () => err(new InsufficientFundsError('Insufficient funds')))
+      .build()
+    const transfer = define()
+      .hooks({ onError: (error: { _tag: string }) => void error._tag })
+      .auth({ required: true })
+      .handler<PaymentDeps>(async () => err(new InsufficientFundsError('Insufficient funds')))
+      .build()
+
+    expect(transfer({ transfer: async () => 'done' }).errors.AuthenticationError).toBeDefined()
+  })
+
+  it('should report defects before they are rethrown or captured', async () => {
+    const onDefect = vi.fn()
+    const onError = vi.fn()
+    const onFinally = vi.fn()
+    const transfer = createTransfer({ onDefect, onError, onFinally })({
+      transfer: async () => {
+        throw new Error('ledger unavailable')
+      },
+    })
+
+    await expect(transfer.method({ amount: 10 }, undefined, {})).rejects.toThrow('ledger unavailable')
+    configureFramewerk({ defects: { capture: true, onDefect: () => {} } })
+    const captured = await transfer.method({ amount: 10 }, undefined, {})
+
+    expect(captured._unsafeUnwrapErr()).toBeInstanceOf(UnexpectedError)
+    expect(onDefect).toHaveBeenCalledTimes(2)
+    expect((onDefect.mock.calls[0]![0] as Error).message).toBe('ledger unavailable')
+    expect(onError).not.toHaveBeenCalled()
+    expect(onFinally).toHaveBeenCalledTimes(2)
+  })
+
+  it('should run hooks in registration order and report the exceptions they throw', async () => {
+    const order: string[] = []
+    const onHookError = vi.fn()
+    configureFramewerk({ hooks: { onHookError } })
+    const manager = new InMemoryTransactionManager()
+    const transfer = defineHandler("payments.transfer", "Transfer money")
+      .input(TransferInput)
+      .output(Transfer)
+      .transactional({ manager })
+      .hooks({ onStart: () => void order.push('first') })
+      .hooks({ onStart: async () => void order.push('second') })
+      .hooks({
+        onSuccess: () => {
+          throw new Error('audit log unavailable')
+        },
+      })
+      .handler<object>(async (input) => ok(input))
+      .build()({})
+
+    const result = await transfer.method({ amount: 10 }, undefined, {})
+
+    expect(result._unsafeUnwrap()).toEqual({ amount: 10 })
+    expect(manager.transactions[0]!.status).toBe('committed')
+    expect(order).toEqual(['first', 'second'])
+    expect(onHookError).toHaveBeenCalledWith({
+      operationId: 'payments.transfer',
+      hook: 'onSuccess',
+      error: new Error('audit log unavailable'),
+    })
+  })
+
+  it('should pass the input to onStart before it is validated', async () => {
+    const started: unknown[] = []
+    const transfer = createTransfer({
+      onStart: (input) => {
+        // @ts-expect-error the input is not validated yet
+        void input.amount
+        started.push(input)
+      },
+    })({ transfer: async () => 'done' })
+
+    const result = await transfer.method({ amount: 'oops' } as never, undefined, {})
+
+    expect(started).toEqual([{ amount: 'oops' }])
+    expect(result._unsafeUnwrapErr()._tag).toBe('InputValidationError')
+  })
+
+  it('should observe every handler of a service with the handler name', async () => {
+    const events: unknown[] = []
+    const transfer = createTransfer({})({ transfer: async (amount) => (amount > 100 ? 'insufficient' : 'done') })
+    const service = defineService("PaymentService")
+      .$dependsOn<{ currency: string }>()
+      .hooks({
+        onStart: (input, ctx, handlerName) => void events.push(['start', handlerName, ctx.currency]),
+        onError: (error, _ctx, { attempts }, handlerName) =>
+          void events.push(['error', handlerName, (error as FramewerkError)._tag, attempts]),
+      })
+      .addHandler("transfer", transfer.method)
+      .build()
+      .make({ currency: 'EUR' })
+
+    await service.transfer!({ amount: 10 })
+    await service.transfer!({ amount: 500 })
+
+    expect(events).toEqual([
+      ['start', 'transfer', 'EUR'],
+      ['start', 'transfer', 'EUR'],
+      ['error', 'transfer', 'InsufficientFundsError', 1],
+    ])
+  })
+
+  it('should reject hooks on synchronous handlers', () => {
+    expect(() =>
+      defineHandler("payments.count", "Count transfers")
+        .input(z.object({}))
+        .output(z.number())
+        .hooks({ onStart: () => {} })
+        .handlerSync<object>(() => ok(1))
+        .buildSync()
+    ).toThrow('Handler "payments.count" cannot be built synchronously because it uses .hooks()')
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Tests for idempotency-key support
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { z } from 'zod'
+import { ok, err } from 'neverthrow'
+import { defineHandler } from '../handler'
+import { InMemoryIdempotencyStore, type IdempotencyOptions } from '../idempotency'
+import {
+  FramewerkError,
+  IdempotencyConflictError,
+  IdempotencyKeyMismatchError,
+} from '../errors'
+
+class PaymentDeclinedError extends FramewerkError.tagged("PaymentDeclinedError") {
+  static readonly httpStatus = 402
+
+  constructor() {
+    super('Payment declined')
+  }
+}
+
+const createChargeHandler = (
+  charge: (amount: number) => Promise<{ id: string } | null>,
+  idempotency: IdempotencyOptions = { store: new InMemoryIdempotencyStore() }
+) =>
+  defineHandler("payments.charge", "Charge a card")
+    .input(z.object({ amount: z.number() }))
+    .output(z.object({ id: z.string() }))
+    .errors([PaymentDeclinedError] as const)
+    .idempotent(idempotency)
+    .withDependencies<object>()
+    .resolver(() => async (input) => {
+      const charged = await charge(input.amount)
+      return charged ? ok(charged) : err(new PaymentDeclinedError())
+    })
+    .build()({})
+
+describe('Idempotent Handlers', () => {
+  it('should replay the first successful result for a repeated key', async () => {
+    const charge = vi.fn().mockResolvedValueOnce({ id: 'ch_1' }).mockResolvedValueOnce({ id: 'ch_2' })
+    const handler = createChargeHandler(charge)
+
+    const first = await handler.method({ amount: 10 }, { idempotencyKey: 'key-1' }, {})
+    const second = await handler.method({ amount: 10 }, { idempotencyKey: 'key-1' }, {})
+
+    expect(first._unsafeUnwrap()).toEqual({ id: 'ch_1' })
+    expect(second._unsafeUnwrap()).toEqual({ id: 'ch_1' })
+    expect(charge).toHaveBeenCalledTimes(1)
+  })
+
+  it('should replay the first error result as well', async () => {
+    const charge = vi.fn().mockResolvedValue(null)
+    const handler = createChargeHandler(charge)
+
+    await handler.method({ amount: 10 }, undefined, { idempotencyKey: 'key-1' })
+    const second = await handler.method({ amount: 10 }, undefined, { idempotencyKey: 'key-1' })
+
+    expect(second._unsafeUnwrapErr()).toBeInstanceOf(PaymentDeclinedError)
+    expect(charge).toHaveBeenCalledTimes(1)
+  })
+
+  it('should reject reuse of a key with a different input', async () => {
+    const handler = createChargeHandler(vi.fn().mockResolvedValue({ id: 'ch_1' }))
+
+    await handler.method({ amount: 10 }, { idempotencyKey: 'key-1' }, {})
+    const result = await handler.method({ amount: 20 }, { idempotencyKey: 'key-1' }, {})
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(IdempotencyKeyMismatchError)
+  })
+
+  it('should detect concurrent duplicates', async () => {
+    let release: (value: { id: string }) => void = () => undefined
+    const charge = vi.fn(() => new Promise<{ id: string }>((resolve) => { release = resolve }))
+    const handler = createChargeHandler(charge)
+
+    const first = handler.method({ amount: 10 }, { idempotencyKey: 'key-1' }, {})
+    const duplicate = await handler.method({ amount: 10 }, { idempotencyKey: 'key-1' }, {})
+    release({ id: 'ch_1' })
+
+    expect(duplicate._unsafeUnwrapErr()).toBeInstanceOf(IdempotencyConflictError)
+    expect((await first)._unsafeUnwrap()).toEqual({ id: 'ch_1' })
+    expect(charge).toHaveBeenCalledTimes(1)
+  })
+
+  it('should run normally without a key and release keys when the resolver throws', async () => {
+    const charge = vi.fn()
+      .mockResolvedValueOnce({ id: 'ch_1' })
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValueOnce({ id: 'ch_3' })
+    const handler = createChargeHandler(charge)
+
+    await handler.method({ amount: 10 }, undefined, {})
+    await expect(handler.method({ amount: 10 }, { idempotencyKey: 'key-1' }, {})).rejects.toThrow('boom')
+    const retried = await handler.method({ amount: 10 }, { idempotencyKey: 'key-1' }, {})
+
+    expect(retried._unsafeUnwrap()).toEqual({ id: 'ch_3' })
+    expect(charge).toHaveBeenCalledTimes(3)
+  })
+
+  it('should expose idempotency in metadata and the error map', () => {
+    const handler = createChargeHandler(vi.fn(), { key: (_options, ctx) => ctx.requestId as string })
+
+    expect(handler.metadata.idempotent).toBe(true)
+    expect(handler.errors.IdempotencyConflictError!.status).toBe(409)
+    expect(handler.errors.IdempotencyKeyMismatchError!.status).toBe(422)
+  })
+
+  it('should keep the records of handler versions apart', async () => {
+    const store = new InMemoryIdempotencyStore()
+    const createCharge = (version: string) =>
+      defineHandler("payments.charge", "Charge a card")
+        .version(version)
+        .input(z.object({ amount: z.number() }))
+        .output(z.object({ id: z.string() }))
+        .idempotent({ store })
+        .handler<object>(async () => ok({ id: `ch_v${version}` }))
+        .build()({})
+
+    await createCharge('1').method({ amount: 10 }, { idempotencyKey: 'key-1' }, {})
+    const second = await createCharge('2').method({ amount: 10 }, { idempotencyKey: 'key-1' }, {})
+
+    expect(second._unsafeUnwrap()).toEqual({ id: 'ch_v2' })
+  })
+})
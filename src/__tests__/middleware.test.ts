@@ -0,0 +1,217 @@
+/**
+ * Tests for handler-level middleware
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { z } from 'zod'
+import { ok, err } from 'neverthrow'
+import { defineHandler } from '../handler'
+import { defineMiddleware } from '../middleware'
+import { defineService, type HandlerDefinition } from '../service'
+import { AuthenticationError, RateLimitError, UserNotFoundError } from '../errors'
+
+const authMiddleware = defineMiddleware("auth")
+  .errors([AuthenticationError] as const)
+  .provides<{ user: { id: string } }>()
+  .handler(async (_input, _options, ctx, next) => {
+    if (typeof ctx.token !== 'string') {
+      return err(new AuthenticationError('Missing token'))
+    }
+    return next({ user: { id: ctx.token } })
+  })
+
+const createHandler = (calls: string[] = []) => {
+  const tracing = defineMiddleware("tracing").handler(async (_input, _options, _ctx, next) => {
+    calls.push('tracing:before')
+    const result = await next()
+    calls.push('tracing:after')
+    return result
+  })
+
+  return defineHandler("getProfile", "Get the current user's profile")
+    .input(z.object({ includeEmail: z.boolean().default(false) }))
+    .output(z.object({ id: z.string() }))
+    .errors([UserNotFoundError] as const)
+    .use(tracing)
+    .use(authMiddleware)
+    .withDependencies<object>()
+    .resolver(() => async (input, _options, ctx) => {
+      calls.push(`resolver:${input.includeEmail}`)
+      return ok({ id: ctx.user.id })
+    })
+    .build()({})
+}
+
+describe('Handler Middleware', () => {
+  it('should run middleware in registration order around the resolver', async () => {
+    const calls: string[] = []
+    const handler = createHandler(calls)
+
+    const result = await handler.method({ includeEmail: false }, undefined, { token: 'user-1' })
+
+    expect(result._unsafeUnwrap()).toEqual({ id: 'user-1' })
+    expect(calls).toEqual(['tracing:before', 'resolver:false', 'tracing:after'])
+  })
+
+  it('should short-circuit with a middleware error', async () => {
+    const calls: string[] = []
+    const handler = createHandler(calls)
+
+    const result = await handler.method({ includeEmail: false }, undefined, {})
+
+    const error = result._unsafeUnwrapErr()
+    expect(error).toBeInstanceOf(AuthenticationError)
+    expect(calls).toEqual(['tracing:before', 'tracing:after'])
+  })
+
+  it('should include middleware errors in the error union and metadata', async () => {
+    const handler = createHandler()
+
+    expect(Object.keys(handler.errors)).toEqual([
+      'UserNotFoundError',
+      'AuthenticationError',
+      'InputValidationError',
+      'OutputValidationError',
+      'HandlerTimeoutError',
+      'UnexpectedError',
+      'DryRunNotSupportedError',
+    ])
+    expect(handler.errors.AuthenticationError!.status).toBe(401)
+    expect(handler.metadata.middleware).toEqual(['tracing', 'auth'])
+
+    const result = await handler.method({ includeEmail: false }, undefined, {})
+    if (result.isErr()) {
+      const error = result.error
+      switch (error._tag) {
+        case 'UserNotFoundError':
+        case 'AuthenticationError':
+        case 'InputValidationError':
+        case 'OutputValidationError':
+        case 'HandlerTimeoutError':
+        case 'UnexpectedError':
+        case 'DryRunNotSupportedError':
+          break
+        default: {
+          const _exhaustive: never = error
+          throw new Error(`Unhandled error: ${_exhaustive}`)
+        }
+      }
+    }
+  })
+
+  it('should not run middleware when input is invalid', async () => {
+    const run = vi.fn()
+    const handler = defineHandler("echo", "Echo")
+      .input(z.string())
+      .output(z.string())
+      .use(defineMiddleware("spy").errors([RateLimitError] as const).handler(async (_input, _options, _ctx, next) => {
+        run()
+        return next()
+      }))
+      .withDependencies<object>()
+      .resolver(() => async (input) => ok(input))
+      .build()({})
+
+    const result = await handler.method(42 as never, undefined, {})
+
+    expect(result._unsafeUnwrapErr()._tag).toBe('InputValidationError')
+    expect(run).not.toHaveBeenCalled()
+  })
+})
+
+describe('Service Middleware', () => {
+  const recorder = (name: string, calls: string[]) =>
+    defineMiddleware(name).handler(async (_input, _options, _ctx, next) => {
+      calls.push(`${name}:before`)
+      const result = await next()
+      calls.push(`${name}:after`)
+      return result
+    })
+
+  it('should run service middleware around every handler, outside handler middleware', async () => {
+    const calls: string[] = []
+    const built = defineHandler("getGreeting", "Greet someone")
+      .input(z.object({ name: z.string() }))
+      .output(z.string())
+      .use(recorder('handler', calls))
+      .withDependencies<object>()
+      .resolver(() => async (input) => {
+        calls.push('resolver')
+        return ok(`Hello ${input.name}`)
+      })
+      .build()({})
+
+    const service = defineService("GreetingService")
+      .withServiceDependencies<{ prefix: string }>()
+      .use(recorder('first', calls))
+      .addHandler('getGreeting', built.method)
+      .use(recorder('second', calls))
+      .build()
+
+    const result = await service.make({ prefix: '>' }).getGreeting!({ name: 'Ada' })
+
+    expect(result._unsafeUnwrap()).toBe('Hello Ada')
+    expect(calls).toEqual([
+      'first:before',
+      'second:before',
+      'handler:before',
+      'resolver',
+      'handler:after',
+      'second:after',
+      'first:after',
+    ])
+    expect(service.getMetadata().middleware).toEqual(['first', 'second'])
+  })
+
+  it('should only apply targeted middleware to matching handlers', async () => {
+    const calls: string[] = []
+    const listAccounts: HandlerDefinition<unknown, string, never, object> = async () => ok('list')
+    listAccounts.metadata = { name: 'listAccounts', tags: ['tenant-scoped'] }
+    const health: HandlerDefinition<unknown, string, never, object> = async () => ok('ok')
+    const version: HandlerDefinition<unknown, string, never, object> = async () => ok('1.0.0')
+
+    const service = defineService("AccountService")
+      .withServiceDependencies<object>()
+      .use(recorder('tenancy', calls), { tags: ['tenant-scoped'] })
+      .use(recorder('audit', calls), { handlers: ['version'] })
+      .addHandler('listAccounts', listAccounts)
+      .addHandler('health', health)
+      .addHandler('version', version)
+      .build()
+      .make({})
+
+    await service.health!(undefined)
+    expect(calls).toEqual([])
+
+    await service.listAccounts!(undefined)
+    await service.version!(undefined)
+    expect(calls).toEqual(['tenancy:before', 'tenancy:after', 'audit:before', 'audit:after'])
+  })
+
+  it('should let service middleware short-circuit and enrich the context', async () => {
+    const tenancy = defineMiddleware("tenancy")
+      .errors([AuthenticationError] as const)
+      .provides<{ tenantId: string }>()
+      .handler(async (_input, _options, ctx, next) => {
+        if (typeof ctx.tenantHeader !== 'string') {
+          return err(new AuthenticationError('Missing tenant'))
+        }
+        return next({ tenantId: ctx.tenantHeader })
+      })
+    const whoAmI: HandlerDefinition<unknown, unknown, never, { region: string }> = async (_input, _options, ctx) =>
+      ok({ tenantId: ctx.tenantId, region: ctx.region })
+
+    const service = defineService("TenantService")
+      .withServiceDependencies<{ region: string }>()
+      .use(tenancy)
+      .addHandler('whoAmI', whoAmI)
+      .build()
+      .make({ region: 'eu' })
+
+    expect((await service.whoAmI!(undefined))._unsafeUnwrapErr()).toBeInstanceOf(AuthenticationError)
+    expect((await service.whoAmI!(undefined, undefined, { tenantHeader: 't-1' }))._unsafeUnwrap()).toEqual({
+      tenantId: 't-1',
+      region: 'eu',
+    })
+  })
+})
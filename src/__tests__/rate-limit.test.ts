@@ -0,0 +1,199 @@
+/**
+ * Tests for handler rate limiting
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { z } from 'zod'
+import { ok } from 'neverthrow'
+import { defineHandler } from '../handler'
+import { defineService } from '../service'
+import { ServiceInspector } from '../introspection'
+import { configureFramewerk, resetFramewerkConfig } from '../config'
+import { InMemoryTokenBucketStore } from '../rate-limit'
+import { RateLimitError } from '../errors'
+
+const sendMessage = (options: Parameters<ReturnType<typeof defineHandler>['rateLimit']>[0]) =>
+  defineHandler("messages.send", "Send a message")
+    .rateLimit(options)
+    .input(z.object({ text: z.string() }))
+    .output(z.object({ sent: z.boolean() }))
+    .handler<object>(async () => ok({ sent: true }))
+    .build()({})
+
+describe('Rate limiting', () => {
+  let store: InMemoryTokenBucketStore
+
+  beforeEach(() => {
+    resetFramewerkConfig()
+    store = new InMemoryTokenBucketStore()
+    configureFramewerk({ rateLimit: { store } })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should return RateLimitError with retry-after once the limit is used up', async () => {
+    vi.useFakeTimers()
+    const handler = sendMessage({ requests: 2, windowMs: 1000, key: 'global' })
+
+    const first = await handler.method({ text: 'a' }, undefined, {})
+    const second = await handler.method({ text: 'b' }, undefined, {})
+    const third = await handler.method({ text: 'c' }, undefined, {})
+
+    expect(first.isOk() && second.isOk()).toBe(true)
+    const error = third._unsafeUnwrapErr()
+    expect(error).toBeInstanceOf(RateLimitError)
+    expect((error as RateLimitError).retryAfterMs).toBe(500)
+    expect(error.message).toBe('Rate limit of messages.send exceeded; retry after 500ms')
+    expect(error.toHandlerError()).toMatchObject({ code: 'RateLimitError', retryAfterMs: 500 })
+    expect(handler.errors.RateLimitError!.status).toBe(429)
+  })
+
+  it('should refill the limit over the window', async () => {
+    vi.useFakeTimers()
+    const handler = sendMessage({ requests: 1, windowMs: 1000, key: 'global' })
+
+    await handler.method({ text: 'a' }, undefined, {})
+    expect((await handler.method({ text: 'b' }, undefined, {})).isErr()).toBe(true)
+
+    vi.advanceTimersByTime(1000)
+    expect((await handler.method({ text: 'c' }, undefined, {})).isOk()).toBe(true)
+  })
+
+  it('should keep separate limits per tenant and IP', async () => {
+    const perTenant = sendMessage({ requests: 1, windowMs: 60_000, key: 'tenant' })
+    const perIp = sendMessage({ requests: 1, windowMs: 60_000, key: 'ip' })
+
+    await perTenant.method({ text: 'a' }, undefined, { tenantId: 't1' })
+    const otherTenant = await perTenant.method({ text: 'a' }, undefined, { tenantId: 't2' })
+    const sameTenant = await perTenant.method({ text: 'a' }, undefined, { tenantId: 't1' })
+
+    store.clear()
+    await perIp.method({ text: 'a' }, undefined, { ip: '10.0.0.1' })
+    const otherIp = await perIp.method({ text: 'a' }, undefined, { ip: '10.0.0.2' })
+    const sameIp = await perIp.method({ text: 'a' }, undefined, { ip: '10.0.0.1' })
+
+    expect(otherTenant.isOk()).toBe(true)
+    expect(sameTenant._unsafeUnwrapErr()).toBeInstanceOf(RateLimitError)
+    expect(otherIp.isOk()).toBe(true)
+    expect(sameIp._unsafeUnwrapErr()).toBeInstanceOf(RateLimitError)
+  })
+
+  it('should key limits by the authenticated principal', async () => {
+    configureFramewerk({ auth: { authorizer: { authenticate: (ctx) => ({ id: ctx.userId as string }) } } })
+    const handler = sendMessage({ requests: 1, windowMs: 60_000, key: 'principal' })
+
+    await handler.method({ text: 'a' }, undefined, { userId: 'u1' })
+    const otherUser = await handler.method({ text: 'a' }, undefined, { userId: 'u2' })
+    const sameUser = await handler.method({ text: 'a' }, undefined, { userId: 'u1' })
+
+    expect(otherUser.isOk()).toBe(true)
+    expect(sameUser._unsafeUnwrapErr()).toBeInstanceOf(RateLimitError)
+  })
+
+  it('should authenticate once for both the auth check and the rate limit key', async () => {
+    const authenticate = vi.fn((ctx: { userId?: unknown }) => ({ id: ctx.userId as string }))
+    configureFramewerk({ auth: { authorizer: { authenticate } } })
+    const handler = defineHandler("messages.send", "Send a message")
+      .auth({ required: true })
+      .rateLimit({ requests: 1, windowMs: 60_000, key: 'principal' })
+      .input(z.object({ text: z.string() }))
+      .output(z.object({ sent: z.boolean() }))
+      .handler<object>(async () => ok({ sent: true }))
+      .build()({})
+
+    await handler.method({ text: 'a' }, undefined, { userId: 'u1' })
+    const limited = await handler.method({ text: 'a' }, undefined, { userId: 'u1' })
+
+    expect(limited._unsafeUnwrapErr()).toBeInstanceOf(RateLimitError)
+    expect(authenticate).toHaveBeenCalledTimes(2)
+  })
+
+  it('should fail calls limited per principal without an authorizer', async () => {
+    const handler = sendMessage({ requests: 1, windowMs: 60_000, key: 'principal' })
+
+    await expect(handler.method({ text: 'a' }, undefined, {})).rejects.toThrow(
+      'Handler "messages.send" limits calls per principal but no Authorizer is configured'
+    )
+    expect(store.size).toBe(0)
+  })
+
+  it('should keep separate limits per version of an operation', async () => {
+    const defineVersion = (version: string) =>
+      defineHandler("messages.send", "Send a message")
+        .version(version)
+        .rateLimit({ requests: 1, windowMs: 60_000, key: 'global' })
+        .input(z.object({ text: z.string() }))
+        .output(z.object({ sent: z.boolean() }))
+        .handler<object>(async () => ok({ sent: true }))
+        .build()({})
+
+    await defineVersion('1').method({ text: 'a' }, undefined, {})
+    const otherVersion = await defineVersion('2').method({ text: 'a' }, undefined, {})
+    const sameVersion = await defineVersion('1').method({ text: 'a' }, undefined, {})
+
+    expect(otherVersion.isOk()).toBe(true)
+    expect(sameVersion._unsafeUnwrapErr()).toBeInstanceOf(RateLimitError)
+  })
+
+  it('should support custom keys and per-handler stores', async () => {
+    const ownStore = new InMemoryTokenBucketStore()
+    const handler = sendMessage({
+      requests: 1,
+      windowMs: 60_000,
+      key: (options) => options?.requestMetadata?.apiKey as string,
+      store: ownStore,
+    })
+
+    await handler.method({ text: 'a' }, { requestMetadata: { apiKey: 'k1' } }, {})
+    const limited = await handler.method({ text: 'a' }, { requestMetadata: { apiKey: 'k1' } }, {})
+
+    expect(limited._unsafeUnwrapErr()).toBeInstanceOf(RateLimitError)
+    expect(ownStore.size).toBe(1)
+    expect(store.size).toBe(0)
+    expect(handler.metadata.rateLimit).toEqual({ requests: 1, windowMs: 60_000, key: 'custom' })
+  })
+
+  it('should drop buckets once they have refilled', async () => {
+    vi.useFakeTimers()
+    const limit = { requests: 2, windowMs: 1000 }
+
+    await store.consume('slow', { requests: 1, windowMs: 10_000 })
+    await store.consume('a', limit)
+    await store.consume('b', limit)
+    vi.advanceTimersByTime(600)
+    await store.consume('c', limit)
+
+    expect(store.size).toBe(2)
+  })
+
+  it('should reject invalid limits and synchronous builds', () => {
+    expect(() =>
+      defineHandler("messages.send", "Send").rateLimit({ requests: 0, windowMs: 1000, key: 'global' })
+    ).toThrow('Rate limits need a positive number of requests and window')
+    expect(() =>
+      // @ts-expect-error the key is required
+      defineHandler("messages.send", "Send").rateLimit({ requests: 1, windowMs: 1000 })
+    ).toThrow('Rate limits need a key identifying the caller')
+    expect(() =>
+      defineHandler("messages.count", "Count messages")
+        .rateLimit({ requests: 1, windowMs: 1000, key: 'global' })
+        .input(z.object({}))
+        .output(z.number())
+        .handlerSync<object>(() => ok(1))
+        .buildSync()
+    ).toThrow('Handler "messages.count" cannot be built synchronously because it uses .rateLimit()')
+  })
+
+  it('should expose the limit in introspection', () => {
+    const service = defineService("MessageService")
+      .$dependsOn<object>()
+      .addHandler("send", sendMessage({ requests: 10, windowMs: 60_000, key: 'tenant' }).method)
+      .build()
+
+    const metadata = new ServiceInspector(service).getEnhancedMetadata()
+
+    expect(metadata.handlers.send!.security).toEqual({ rateLimit: { requests: 10, windowMs: 60_000 } })
+  })
+})
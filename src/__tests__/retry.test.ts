@@ -0,0 +1,130 @@
+/**
+ * Tests for declarative retry policies
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { z } from 'zod'
+import { ok, err } from 'neverthrow'
+import { defineHandler } from '../handler'
+import { computeRetryDelay, describeRetryPolicy, type RetryPolicy } from '../retry'
+import { DatabaseError, NetworkTimeoutError } from '../errors'
+
+const createFlakyHandler = (failures: Array<'network' | 'database'>, policy: Partial<RetryPolicy> = {}) => {
+  const fetchRates = vi.fn(async () => {
+    const failure = failures.shift()
+    if (failure === 'network') {
+      return err(new NetworkTimeoutError('Upstream timed out'))
+    }
+    if (failure === 'database') {
+      return err(new DatabaseError('loadRates'))
+    }
+    return ok({ usd: 1 })
+  })
+
+  const handler = defineHandler("getRates", "Fetch exchange rates")
+    .input(z.object({}))
+    .output(z.object({ usd: z.number() }))
+    .errors([NetworkTimeoutError, DatabaseError] as const)
+    .retry({ on: [NetworkTimeoutError], attempts: 3, backoff: 'fixed', delayMs: 1, ...policy })
+    .withDependencies<object>()
+    .resolver(() => async () => fetchRates())
+    .build()({})
+
+  return { handler, fetchRates }
+}
+
+describe('Retry Policies', () => {
+  it('should retry matching errors until the resolver succeeds', async () => {
+    const { handler, fetchRates } = createFlakyHandler(['network', 'network'])
+
+    const result = await handler.method({}, undefined, {})
+
+    expect(result._unsafeUnwrap()).toEqual({ usd: 1 })
+    expect(fetchRates).toHaveBeenCalledTimes(3)
+  })
+
+  it('should report each retry an invocation makes', async () => {
+    const onRetry = vi.fn()
+    const { handler } = createFlakyHandler(['network'], { onRetry })
+
+    await handler.method({}, undefined, {})
+
+    expect(onRetry).toHaveBeenCalledTimes(1)
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ _tag: 'NetworkTimeoutError' }), 2)
+  })
+
+  it('should report the attempts of each invocation to lifecycle hooks', async () => {
+    const { handler: getRates, fetchRates } = createFlakyHandler(['network', 'network'])
+    const attempts: Array<[string, number]> = []
+    const getQuote = defineHandler("getQuote", "Quote a price")
+      .input(z.object({}))
+      .output(z.object({ usd: z.number() }))
+      .errors([NetworkTimeoutError, DatabaseError] as const)
+      .hooks({ onFinally: (_ctx, stats) => void attempts.push(['getQuote', stats.attempts]) })
+      .withDependencies<object>()
+      .resolver(() => async () => {
+        const rates = await fetchRates()
+        // Retried by the caller's own policy, not counted as attempts of getQuote
+        await getRates.method({}, undefined, {})
+        return rates
+      })
+      .retry({ on: [NetworkTimeoutError], attempts: 2, backoff: 'fixed', delayMs: 1 })
+      .build()({})
+
+    const result = await getQuote.method({}, undefined, {})
+
+    expect(result._unsafeUnwrap()).toEqual({ usd: 1 })
+    expect(attempts).toEqual([['getQuote', 2]])
+    expect(fetchRates).toHaveBeenCalledTimes(5)
+  })
+
+  it('should give up after the configured number of attempts', async () => {
+    const { handler, fetchRates } = createFlakyHandler(['network', 'network', 'network', 'network'])
+
+    const result = await handler.method({}, undefined, {})
+
+    expect(result._unsafeUnwrapErr()._tag).toBe('NetworkTimeoutError')
+    expect(fetchRates).toHaveBeenCalledTimes(3)
+  })
+
+  it('should not retry errors outside the policy', async () => {
+    const { handler, fetchRates } = createFlakyHandler(['database'])
+
+    const result = await handler.method({}, undefined, {})
+
+    expect(result._unsafeUnwrapErr()._tag).toBe('DatabaseError')
+    expect(fetchRates).toHaveBeenCalledTimes(1)
+  })
+
+  it('should stop retrying when the next delay would cross the deadline', async () => {
+    const { handler, fetchRates } = createFlakyHandler(['network', 'network'], { delayMs: 1000 })
+
+    const result = await handler.method({}, { deadline: Date.now() + 500 }, {})
+
+    expect(result.isErr()).toBe(true)
+    expect(fetchRates).toHaveBeenCalledTimes(1)
+  })
+
+  it('should record the policy in handler metadata', () => {
+    const { handler } = createFlakyHandler([])
+
+    expect(handler.metadata.retry).toEqual({
+      on: ['NetworkTimeoutError'],
+      attempts: 3,
+      backoff: 'fixed',
+      delayMs: 1,
+      maxDelayMs: undefined,
+      jitter: false,
+    })
+  })
+
+  it('should compute exponential delays with a cap and jitter', () => {
+    const retry = describeRetryPolicy({ on: [], attempts: 5, delayMs: 100, maxDelayMs: 300 }, [])
+
+    expect([1, 2, 3].map((n) => computeRetryDelay(retry, n))).toEqual([100, 200, 300])
+
+    const jittered = computeRetryDelay({ ...retry, jitter: true }, 2)
+    expect(jittered).toBeGreaterThanOrEqual(0)
+    expect(jittered).toBeLessThanOrEqual(200)
+  })
+})
@@ -0,0 +1,187 @@
+/**
+ * Tests for streaming handlers
+ */
+
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import { ok, err } from 'neverthrow'
+import { defineHandler } from '../handler'
+import { defineService } from '../service'
+import { ServiceInspector } from '../introspection'
+import { FramewerkError, HandlerTimeoutError, InputValidationError, OutputValidationError } from '../errors'
+import type { HandlerStream } from '../streaming'
+import { createHandlerTestHarness } from '../testing'
+
+class ExportFailedError extends FramewerkError.tagged("ExportFailedError") {
+  static readonly httpStatus = 500
+}
+
+const Row = z.object({ id: z.number() })
+
+interface ExportDeps {
+  rows: unknown[]
+  delayMs?: number
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    })
+  })
+
+const exportRows = defineHandler("rows.export", "Export rows")
+  .input(z.object({ fail: z.boolean().default(false) }))
+  .output(z.object({ exported: z.number() }))
+  .errors([ExportFailedError] as const)
+  .stream(Row)
+  .handlerStream<ExportDeps>(async function* (input, ctx) {
+    let exported = 0
+    for (const row of ctx.deps.rows) {
+      if (ctx.deps.delayMs) {
+        await sleep(ctx.deps.delayMs, ctx.options?.signal)
+      }
+      if (ctx.options?.signal?.aborted) {
+        break
+      }
+      yield row as { id: number }
+      exported++
+    }
+    return input.fail ? err(new ExportFailedError("export failed")) : ok({ exported })
+  })
+  .buildStream()
+
+const collect = async <T>(stream: HandlerStream<T, unknown, unknown>) => {
+  const chunks: T[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
+
+describe('Streaming handlers', () => {
+  it('should yield validated chunks and settle the final result', async () => {
+    const stream = createHandlerTestHarness(exportRows, { rows: [{ id: 1 }, { id: 2 }] }).call({ fail: false })
+
+    expect(await collect(stream)).toEqual([{ id: 1 }, { id: 2 }])
+    expect((await stream.result)._unsafeUnwrap()).toEqual({ exported: 2 })
+  })
+
+  it('should end with the error the generator returns', async () => {
+    const stream = createHandlerTestHarness(exportRows, { rows: [{ id: 1 }] }).call({ fail: true })
+
+    expect(await collect(stream)).toEqual([{ id: 1 }])
+    expect((await stream.result)._unsafeUnwrapErr()).toBeInstanceOf(ExportFailedError)
+  })
+
+  it('should end without chunks on invalid input', async () => {
+    const stream = createHandlerTestHarness(exportRows, { rows: [{ id: 1 }] }).call({ fail: 'yes' } as never)
+
+    expect(await collect(stream)).toEqual([])
+    expect((await stream.result)._unsafeUnwrapErr()).toBeInstanceOf(InputValidationError)
+  })
+
+  it('should stop at the first chunk that does not match the chunk schema', async () => {
+    const stream = createHandlerTestHarness(exportRows, { rows: [{ id: 1 }, { id: 'two' }, { id: 3 }] })
+      .call({ fail: false })
+
+    expect(await collect(stream)).toEqual([{ id: 1 }])
+    expect((await stream.result)._unsafeUnwrapErr()).toBeInstanceOf(OutputValidationError)
+  })
+
+  it('should cancel the stream when options.signal aborts', async () => {
+    const controller = new AbortController()
+    const stream = createHandlerTestHarness(exportRows, { rows: [{ id: 1 }, { id: 2 }, { id: 3 }], delayMs: 20 })
+      .call({ fail: false }, { signal: controller.signal })
+
+    const chunks: unknown[] = []
+    for await (const chunk of stream) {
+      chunks.push(chunk)
+      controller.abort()
+    }
+
+    expect(chunks).toEqual([{ id: 1 }])
+    const error = (await stream.result)._unsafeUnwrapErr()
+    expect(error).toBeInstanceOf(HandlerTimeoutError)
+    expect(error.message).toBe("Handler rows.export was aborted")
+  })
+
+  it('should bound the whole stream with .timeout()', async () => {
+    const slowExport = defineHandler("rows.slowExport", "Export rows slowly")
+      .input(z.object({}))
+      .output(z.object({ exported: z.number() }))
+      .stream(Row)
+      .timeout(30)
+      .handlerStream<ExportDeps>(async function* (_input, ctx) {
+        for (const row of ctx.deps.rows) {
+          await sleep(20, ctx.options?.signal)
+          yield row as { id: number }
+        }
+        return ok({ exported: ctx.deps.rows.length })
+      })
+      .buildStream()
+
+    const stream = createHandlerTestHarness(slowExport, { rows: [{ id: 1 }, { id: 2 }, { id: 3 }] }).call({})
+
+    expect(await collect(stream)).toEqual([{ id: 1 }])
+    expect((await stream.result)._unsafeUnwrapErr()).toBeInstanceOf(HandlerTimeoutError)
+  })
+
+  it('should cancel the generator when the consumer stops early', async () => {
+    let signal: AbortSignal | undefined
+    const countdown = defineHandler("countdown", "Count down")
+      .input(z.object({}))
+      .output(z.object({}))
+      .stream(z.number())
+      .handlerStream<object>(async function* (_input, ctx) {
+        signal = ctx.options?.signal
+        for (let i = 3; i > 0; i--) {
+          yield i
+        }
+        return ok({})
+      })
+      .buildStream()
+
+    const stream = createHandlerTestHarness(countdown, {}).call({})
+    for await (const chunk of stream) {
+      expect(chunk).toBe(3)
+      break
+    }
+
+    expect((await stream.result)._unsafeUnwrapErr()).toBeInstanceOf(HandlerTimeoutError)
+    expect(signal?.aborted).toBe(true)
+  })
+
+  it('should reject features unavailable to streams', () => {
+    expect(() =>
+      defineHandler("rows.cached", "Cached export")
+        .input(z.object({}))
+        .output(z.object({}))
+        .cache({ ttl: 1000 })
+        .stream(Row)
+        .handlerStream<object>(async function* () {
+          return ok({})
+        })
+        .buildStream()
+    ).toThrow('Handler "rows.cached" cannot be built as a stream because it uses .cache()')
+  })
+
+  it('should describe streaming handlers in metadata and introspection', async () => {
+    const handler = exportRows({ rows: [{ id: 1 }] })
+    const service = defineService("ExportService")
+      .$dependsOn<object>()
+      .addHandler("exportRows", handler.method)
+      .build()
+
+    const metadata = new ServiceInspector(service).getEnhancedMetadata()
+    const stream = service.make({}).exportRows!({}) as unknown as HandlerStream<unknown, unknown, unknown>
+
+    expect(handler.metadata.streaming).toBe(true)
+    expect(handler.Chunk).toBe(Row)
+    expect(Object.keys(handler.errors)).toContain('ExportFailedError')
+    expect(metadata.handlers.exportRows!.streaming).toBe(true)
+    expect(await collect(stream)).toEqual([{ id: 1 }])
+  })
+})
@@ -0,0 +1,175 @@
+/**
+ * Tests for handler templates
+ */
+
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import { ok, err } from 'neverthrow'
+import { CrudHandlers, defineHandlerTemplate, type Page } from '../templates'
+import { DatabaseError, FramewerkError, NotFoundError, InputValidationError } from '../errors'
+
+class UserSuspendedError extends FramewerkError.tagged("UserSuspendedError") {
+  static readonly httpStatus = 403
+}
+
+const User = z.object({ id: z.string(), name: z.string(), email: z.string() })
+type User = z.infer<typeof User>
+
+interface UserDeps {
+  users: Map<string, User>
+}
+
+const createDeps = (): UserDeps => ({
+  users: new Map([
+    ['u1', { id: 'u1', name: 'Ada', email: 'ada@test.com' }],
+    ['u2', { id: 'u2', name: 'Bob', email: 'bob@test.com' }],
+    ['u3', { id: 'u3', name: 'Cy', email: 'cy@test.com' }],
+  ]),
+})
+
+const createUser = CrudHandlers.create("users.create", "Create a user", User)
+  .handler<UserDeps>(async (input, ctx) => {
+    const user = { id: `u${ctx.deps.users.size + 1}`, ...input }
+    ctx.deps.users.set(user.id, user)
+    return ok(user)
+  })
+  .build()
+
+const getUser = CrudHandlers.get("users.get", "Get a user", User)
+  .handler<UserDeps>(async (input, ctx) => {
+    const user = ctx.deps.users.get(input.id)
+    return user ? ok(user) : err(new NotFoundError("User", input.id))
+  })
+  .build()
+
+const updateUser = CrudHandlers.update("users.update", "Update a user", User)
+  .handler<UserDeps>(async ({ id, ...changes }, ctx) => {
+    const user = ctx.deps.users.get(id)
+    if (!user) {
+      return err(new NotFoundError("User", id))
+    }
+    const updated = { ...user, ...changes }
+    ctx.deps.users.set(id, updated)
+    return ok(updated)
+  })
+  .build()
+
+const deleteUser = CrudHandlers.delete("users.delete", "Delete a user", User)
+  .handler<UserDeps>(async (input, ctx) =>
+    ctx.deps.users.delete(input.id) ? ok({ id: input.id }) : err(new NotFoundError("User", input.id))
+  )
+  .build()
+
+const listUsers = CrudHandlers.list("users.list", "List users", User, z.object({ name: z.string().optional() }))
+  .handler<UserDeps>(async (input, ctx) => {
+    const matching = [...ctx.deps.users.values()].filter((user) => !input.name || user.name === input.name)
+    const start = input.cursor ? Number(input.cursor) : 0
+    const page: Page<User> = {
+      items: matching.slice(start, start + input.limit),
+      nextCursor: start + input.limit < matching.length ? String(start + input.limit) : null,
+    }
+    return ok(page)
+  })
+  .build()
+
+describe('Handler Templates', () => {
+  it('should implement create and get on the entity schema', async () => {
+    const deps = createDeps()
+
+    const created = await createUser(deps).method({ name: 'Di', email: 'di@test.com' }, undefined, {})
+    const fetched = await getUser(deps).method({ id: created._unsafeUnwrap().id }, undefined, {})
+
+    expect(fetched._unsafeUnwrap()).toEqual({ id: 'u4', name: 'Di', email: 'di@test.com' })
+  })
+
+  it('should return NotFoundError for unknown ids', async () => {
+    const deps = createDeps()
+
+    const results = await Promise.all([
+      getUser(deps).method({ id: 'missing' }, undefined, {}),
+      updateUser(deps).method({ id: 'missing', name: 'X' }, undefined, {}),
+      deleteUser(deps).method({ id: 'missing' }, undefined, {}),
+    ])
+
+    for (const result of results) {
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(NotFoundError)
+    }
+    expect(getUser(deps).errors.NotFoundError!.status).toBe(404)
+  })
+
+  it('should accept partial updates but require the id', async () => {
+    const deps = createDeps()
+
+    const updated = await updateUser(deps).method({ id: 'u1', name: 'Ada L.' }, undefined, {})
+    const missingId = await updateUser(deps).method({ name: 'X' } as never, undefined, {})
+
+    expect(updated._unsafeUnwrap()).toEqual({ id: 'u1', name: 'Ada L.', email: 'ada@test.com' })
+    expect(missingId._unsafeUnwrapErr()).toBeInstanceOf(InputValidationError)
+  })
+
+  it('should keep the unknown-key handling of the entity schema', async () => {
+    const StrictUser = User.strict()
+    const createStrictUser = CrudHandlers.create("users.create", "Create a user", StrictUser)
+      .handler<UserDeps>(async (input) => ok({ id: 'u9', ...input }))
+      .build()(createDeps())
+    const updateStrictUser = CrudHandlers.update("users.update", "Update a user", StrictUser)
+      .handler<UserDeps>(async ({ id }, ctx) => ok(ctx.deps.users.get(id)!))
+      .build()(createDeps())
+
+    const extra = { name: 'Di', email: 'di@test.com', role: 'admin' } as never
+    const created = await createStrictUser.method(extra, undefined, {})
+    const updated = await updateStrictUser.method({ id: 'u1', role: 'admin' } as never, undefined, {})
+
+    expect(created._unsafeUnwrapErr()).toBeInstanceOf(InputValidationError)
+    expect(updated._unsafeUnwrapErr()).toBeInstanceOf(InputValidationError)
+  })
+
+  it('should replace the preset errors with those passed to .errors()', () => {
+    const handler = CrudHandlers.get("users.get", "Get a user", User)
+      .errors([NotFoundError, DatabaseError, UserSuspendedError] as const)
+      .handler<UserDeps>(async (input) => err(new UserSuspendedError(`User ${input.id} is suspended`)))
+      .build()(createDeps())
+    const replaced = CrudHandlers.get("users.get", "Get a user", User)
+      .errors([UserSuspendedError] as const)
+      .handler<UserDeps>(async (input) => err(new UserSuspendedError(`User ${input.id} is suspended`)))
+      .build()(createDeps())
+
+    expect(Object.keys(handler.errors)).toEqual(expect.arrayContaining(['NotFoundError', 'DatabaseError', 'UserSuspendedError']))
+    expect(replaced.errors.NotFoundError).toBeUndefined()
+  })
+
+  it('should paginate list results with cursors and filters', async () => {
+    const handler = listUsers(createDeps())
+
+    const first = (await handler.method({ limit: 2 }, undefined, {}))._unsafeUnwrap()
+    const second = (await handler.method({ limit: 2, cursor: first.nextCursor! }, undefined, {}))._unsafeUnwrap()
+    const filtered = (await handler.method({ limit: 20, name: 'Bob' }, undefined, {}))._unsafeUnwrap()
+
+    expect(first.items.map((user) => user.id)).toEqual(['u1', 'u2'])
+    expect(second).toEqual({ items: [{ id: 'u3', name: 'Cy', email: 'cy@test.com' }], nextCursor: null })
+    expect(filtered.items.map((user) => user.id)).toEqual(['u2'])
+  })
+
+  it('should reject page sizes above the limit', async () => {
+    const result = await listUsers(createDeps()).method({ limit: 500 }, undefined, {})
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(InputValidationError)
+  })
+
+  it('should support custom templates with presets', async () => {
+    const adminOnly = defineHandlerTemplate((builder, scope: string) =>
+      builder.tags('Admin').auth({ required: true, scopes: [scope] })
+    )
+
+    const handler = adminOnly('admin.ping', 'Ping', 'admin:read')
+      .input(z.object({}))
+      .output(z.literal('pong'))
+      .handler<object>(async () => ok('pong' as const))
+      .build()({})
+
+    expect(handler.metadata.operationId).toBe('admin.ping')
+    expect(handler.metadata.tags).toEqual(['Admin'])
+    expect(handler.metadata.auth).toEqual({ required: true, scopes: ['admin:read'] })
+    expect((await handler.method({}, undefined, {}))._unsafeUnwrap()).toBe('pong')
+  })
+})
@@ -6,11 +6,13 @@
 
 import { describe, it, expect, beforeEach, vi, type MockedFunction } from 'vitest'
 import { ok, err } from 'neverthrow'
+import { z } from 'zod'
 
 // Import modules to test
+import { defineHandler } from '../handler'
 import { defineService, type HandlerDefinition, type ServiceDefinition } from '../service'
 import { ServiceInspector } from '../introspection'
-import { createServiceTestHarness, ResultTestUtils, PerformanceTestUtils } from '../testing'
+import { createServiceTestHarness, createHandlerTestHarness, ResultTestUtils, PerformanceTestUtils } from '../testing'
 
 // Mock factories for testing (moved from testing.ts)
 const MockFactories = {
@@ -394,6 +396,28 @@ describe('Testing Utilities Demo', () => {
     })
   })
 
+  describe('Handler Test Harness', () => {
+    const GetGreeting = defineHandler("greetings.get", "Get a greeting")
+      .input(z.object({ name: z.string() }))
+      .output(z.object({ greeting: z.string() }))
+      .handler<{ prefix: string }>(async (input, ctx) =>
+        ok({ greeting: `${ctx.deps.prefix} ${input.name} (${String(ctx.requestId ?? 'no request')})` })
+      )
+      .build()
+
+    it('should call the handler instance with the injected dependencies', async () => {
+      const harness = createHandlerTestHarness(GetGreeting, { prefix: 'Hello' })
+
+      const plain = await harness.call({ name: 'Ada' })
+      const withContext = await harness.call({ name: 'Ada' }, undefined, { requestId: 'r1' })
+
+      expect(ResultTestUtils.expectOk(plain)).toEqual({ greeting: 'Hello Ada (no request)' })
+      expect(ResultTestUtils.expectOk(withContext)).toEqual({ greeting: 'Hello Ada (r1)' })
+      expect(harness.mockDependencies).toEqual({ prefix: 'Hello' })
+      expect(harness.handler.metadata.operationId).toBe('greetings.get')
+    })
+  })
+
   describe('Test Fixtures and Builders', () => {
     it('should use test data builders', () => {
       const user = TestFixtures.user
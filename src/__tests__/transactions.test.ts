@@ -0,0 +1,221 @@
+/**
+ * Tests for managed transactions
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import { z } from 'zod'
+import { ok, err } from 'neverthrow'
+import { defineHandler } from '../handler'
+import { FramewerkError, HandlerTimeoutError } from '../errors'
+import { configureFramewerk, resetFramewerkConfig } from '../config'
+import { InMemoryTransactionManager, type InMemoryTransaction } from '../transactions'
+import { createHandlerTestHarness } from '../testing'
+
+class InsufficientFundsError extends FramewerkError.tagged("InsufficientFundsError") {
+  static readonly httpStatus = 402
+}
+
+class DeadlockError extends FramewerkError.tagged("DeadlockError") {}
+
+interface LedgerDeps {
+  // Entries written per transaction
+  entries: Array<{ account: string; amount: number; transaction: unknown }>
+  balance: number
+}
+
+const Debit = defineHandler("ledger.debit", "Debit an account")
+  .input(z.object({ account: z.string(), amount: z.number() }))
+  .output(z.object({ account: z.string() }))
+  .errors([InsufficientFundsError])
+  .transactional()
+  .handler<LedgerDeps>(async (input, ctx) => {
+    if (input.amount > ctx.deps.balance) {
+      return err(new InsufficientFundsError(`Insufficient funds on ${input.account}`))
+    }
+    ctx.deps.entries.push({ account: input.account, amount: -input.amount, transaction: ctx.options?.transaction })
+    return ok({ account: input.account })
+  })
+  .build()
+
+const Transfer = defineHandler("ledger.transfer", "Transfer money")
+  .input(z.object({ from: z.string(), to: z.string(), amount: z.number() }))
+  .output(z.object({ from: z.string(), to: z.string() }))
+  .calls(Debit)
+  .transactional()
+  .handler<LedgerDeps>(async (input, ctx) => {
+    const debit = await ctx.call(Debit, { account: input.from, amount: input.amount })
+    if (debit.isErr()) {
+      return err(debit.error)
+    }
+    ctx.deps.entries.push({ account: input.to, amount: input.amount, transaction: ctx.options?.transaction })
+    return ok({ from: input.from, to: input.to })
+  })
+  .build()
+
+describe('Managed transactions', () => {
+  afterEach(() => {
+    resetFramewerkConfig()
+  })
+
+  it('should commit the transaction of a successful invocation', async () => {
+    const manager = new InMemoryTransactionManager()
+    configureFramewerk({ transactions: { manager } })
+    const { handler, call, mockDependencies: deps } = createHandlerTestHarness(Debit, { entries: [], balance: 100 })
+
+    await call({ account: 'a1', amount: 10 })
+
+    expect(manager.transactions).toEqual([{ id: 1, operationId: 'ledger.debit', status: 'committed' }])
+    expect(deps.entries[0]!.transaction).toBe(manager.transactions[0])
+    expect(handler.metadata.transactional).toBe(true)
+  })
+
+  it('should roll back the transaction of a failed invocation', async () => {
+    const manager = new InMemoryTransactionManager()
+    configureFramewerk({ transactions: { manager } })
+
+    const result = await createHandlerTestHarness(Debit, { entries: [], balance: 5 }).call({ account: 'a1', amount: 10 })
+
+    const [transaction] = manager.transactions
+    expect(transaction!.status).toBe('rolled-back')
+    expect(transaction!.reason).toBe(result._unsafeUnwrapErr())
+  })
+
+  it('should roll back and rethrow when the resolver throws', async () => {
+    const manager = new InMemoryTransactionManager()
+    const failing = defineHandler("ledger.fail", "Fail")
+      .input(z.object({}))
+      .output(z.object({}))
+      .transactional({ manager })
+      .handler<object>(async () => {
+        throw new Error('connection lost')
+      })
+      .build()
+
+    await expect(createHandlerTestHarness(failing, {}).call({})).rejects.toThrow('connection lost')
+    expect(manager.transactions[0]!.status).toBe('rolled-back')
+    expect((manager.transactions[0]!.reason as Error).message).toBe('connection lost')
+  })
+
+  it('should let nested handler calls join the outer transaction', async () => {
+    const manager = new InMemoryTransactionManager()
+    configureFramewerk({ transactions: { manager } })
+    const { call, mockDependencies: deps } = createHandlerTestHarness(Transfer, { entries: [], balance: 100 })
+
+    await call({ from: 'a1', to: 'a2', amount: 10 })
+
+    expect(manager.transactions).toEqual([{ id: 1, operationId: 'ledger.transfer', status: 'committed' }])
+    expect(deps.entries.map((entry) => entry.transaction)).toEqual([manager.transactions[0], manager.transactions[0]])
+  })
+
+  it('should roll back the outer transaction when a nested call fails', async () => {
+    const manager = new InMemoryTransactionManager()
+    configureFramewerk({ transactions: { manager } })
+
+    const result = await createHandlerTestHarness(Transfer, { entries: [], balance: 5 }).call({ from: 'a1', to: 'a2', amount: 10 })
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(InsufficientFundsError)
+    expect(manager.transactions.map((transaction) => transaction.status)).toEqual(['rolled-back'])
+  })
+
+  it('should roll back the transaction of a dry run', async () => {
+    const manager = new InMemoryTransactionManager()
+    const preview = defineHandler("ledger.preview", "Preview a debit")
+      .input(z.object({ account: z.string(), amount: z.number() }))
+      .output(z.object({ account: z.string() }))
+      .supportsDryRun()
+      .transactional({ manager })
+      .handler<LedgerDeps>(async (input, ctx) => {
+        ctx.deps.entries.push({ account: input.account, amount: -input.amount, transaction: ctx.options?.transaction })
+        return ok({ account: input.account })
+      })
+      .build()
+
+    const result = await createHandlerTestHarness(preview, { entries: [], balance: 100 }).call(
+      { account: 'a1', amount: 10 },
+      { dryRun: true }
+    )
+
+    expect(result.isOk()).toBe(true)
+    expect(manager.transactions).toEqual([
+      { id: 1, operationId: 'ledger.preview', status: 'rolled-back', reason: 'dry-run' },
+    ])
+  })
+
+  it('should begin a new transaction for every retried attempt', async () => {
+    const manager = new InMemoryTransactionManager()
+    let attempts = 0
+    const retried = defineHandler("ledger.retried", "Debit with retries")
+      .input(z.object({ account: z.string(), amount: z.number() }))
+      .output(z.object({ account: z.string() }))
+      .errors([DeadlockError])
+      .retry({ on: [DeadlockError], attempts: 3, delayMs: 1 })
+      .transactional({ manager })
+      .handler<LedgerDeps>(async (input, ctx) => {
+        ctx.deps.entries.push({ account: input.account, amount: -input.amount, transaction: ctx.options?.transaction })
+        return ++attempts < 3 ? err(new DeadlockError("Deadlock detected")) : ok({ account: input.account })
+      })
+      .build()
+    const { call, mockDependencies: deps } = createHandlerTestHarness(retried, { entries: [], balance: 100 })
+
+    const result = await call({ account: 'a1', amount: 10 })
+
+    expect(result.isOk()).toBe(true)
+    expect(manager.transactions.map((transaction) => transaction.status)).toEqual([
+      'rolled-back',
+      'rolled-back',
+      'committed',
+    ])
+    expect(deps.entries.map((entry) => entry.transaction)).toEqual(manager.transactions)
+  })
+
+  it('should join a transaction passed by the caller without settling it', async () => {
+    const manager = new InMemoryTransactionManager()
+    configureFramewerk({ transactions: { manager } })
+    const transaction: InMemoryTransaction = { id: 99, operationId: 'caller', status: 'open' }
+    const { call, mockDependencies: deps } = createHandlerTestHarness(Debit, { entries: [], balance: 100 })
+
+    await call({ account: 'a1', amount: 10 }, { transaction })
+
+    expect(manager.transactions).toEqual([])
+    expect(transaction.status).toBe('open')
+    expect(deps.entries[0]!.transaction).toBe(transaction)
+  })
+
+  it('should roll back a transaction that outlives its deadline', async () => {
+    const manager = new InMemoryTransactionManager()
+    let finish: () => void = () => {}
+    const slow = defineHandler("ledger.slow", "Slow write")
+      .input(z.object({}))
+      .output(z.object({}))
+      .timeout(5)
+      .transactional({ manager })
+      .handler<object>(async () => {
+        await new Promise<void>((resolve) => (finish = resolve))
+        return ok({})
+      })
+      .build()
+
+    const result = await createHandlerTestHarness(slow, {}).call({})
+    finish()
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(HandlerTimeoutError)
+    expect(manager.transactions[0]!.status).toBe('rolled-back')
+  })
+
+  it('should fail without a transaction manager and reject unsupported build paths', async () => {
+    const { call } = createHandlerTestHarness(Debit, { entries: [], balance: 100 })
+
+    await expect(call({ account: 'a1', amount: 10 })).rejects.toThrow(
+      'Handler "ledger.debit" is transactional but no TransactionManager is configured'
+    )
+    expect(() =>
+      defineHandler("ledger.count", "Count entries")
+        .input(z.object({}))
+        .output(z.number())
+        .transactional()
+        .handlerSync<object>(() => ok(1))
+        .buildSync()
+    ).toThrow('Handler "ledger.count" cannot be built synchronously because it uses .transactional()')
+  })
+})
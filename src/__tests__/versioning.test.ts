@@ -0,0 +1,111 @@
+/**
+ * Tests for handler versioning
+ */
+
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import { ok } from 'neverthrow'
+import { defineHandler } from '../handler'
+import { defineService } from '../service'
+import { ServiceInspector } from '../introspection'
+import { HandlerVersionNotFoundError } from '../errors'
+
+interface UserDeps {
+  names: Record<string, string>
+}
+
+const getUserV1 = defineHandler("users.get", "Get a user")
+  .version("1")
+  .input(z.object({ id: z.string() }))
+  .output(z.object({ name: z.string() }))
+  .handler<UserDeps>(async (input, ctx) => ok({ name: ctx.deps.names[input.id] ?? '' }))
+  .build()
+
+const getUserV2 = defineHandler("users.get", "Get a user with split names")
+  .version("2")
+  .input(z.object({ id: z.string() }))
+  .output(z.object({ firstName: z.string(), lastName: z.string() }))
+  .handler<UserDeps>(async (input, ctx) => {
+    const [firstName = '', lastName = ''] = (ctx.deps.names[input.id] ?? '').split(' ')
+    return ok({ firstName, lastName })
+  })
+  .build()
+
+const getUserV10 = defineHandler("users.get", "Get a user by handle")
+  .version("10")
+  .input(z.object({ id: z.string() }))
+  .output(z.object({ handle: z.string() }))
+  .handler<UserDeps>(async (input) => ok({ handle: `@${input.id}` }))
+  .build()
+
+const deps: UserDeps = { names: { u1: 'Ada Lovelace' } }
+
+describe('Handler versioning', () => {
+  it('should expose the version in handler metadata', () => {
+    const handler = getUserV2(deps)
+
+    expect(handler.metadata.version).toBe('2')
+    expect((handler.method as { metadata?: { version?: string } }).metadata?.version).toBe('2')
+  })
+
+  it('should invoke the latest version by default and the selected one on request', async () => {
+    const users = defineService("UserService")
+      .$dependsOn<object>()
+      .addHandler("getUser", getUserV2(deps).method)
+      .addHandler("getUser", getUserV1(deps).method)
+      .build()
+      .make({})
+
+    expect((await users.getUser!({ id: 'u1' }))._unsafeUnwrap()).toEqual({ firstName: 'Ada', lastName: 'Lovelace' })
+    expect((await users.getUser!({ id: 'u1' }, { version: '1' }))._unsafeUnwrap()).toEqual({ name: 'Ada Lovelace' })
+  })
+
+  it('should compare versions numerically', async () => {
+    const users = defineService("UserService")
+      .$dependsOn<object>()
+      .addHandler("getUser", getUserV10(deps).method)
+      .addHandler("getUser", getUserV2(deps).method)
+      .build()
+      .make({})
+
+    expect((await users.getUser!({ id: 'u1' }))._unsafeUnwrap()).toEqual({ handle: '@u1' })
+  })
+
+  it('should return HandlerVersionNotFoundError for unknown versions', async () => {
+    const users = defineService("UserService")
+      .$dependsOn<object>()
+      .addHandler("getUser", getUserV1(deps).method)
+      .build()
+      .make({})
+
+    const result = await users.getUser!({ id: 'u1' }, { version: '3' })
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(HandlerVersionNotFoundError)
+  })
+
+  it('should reject registering the same version twice', () => {
+    const builder = defineService("UserService")
+      .$dependsOn<object>()
+      .addHandler("getUser", getUserV1(deps).method)
+
+    expect(() => builder.addHandler("getUser", getUserV1(deps).method)).toThrow(
+      'Handler "getUser" version "1" is already registered'
+    )
+  })
+
+  it('should list each version separately in introspection and OpenAPI', () => {
+    const service = defineService("UserService")
+      .$dependsOn<object>()
+      .addHandler("getUser", getUserV1(deps).method)
+      .addHandler("getUser", getUserV2(deps).method)
+      .build()
+    const inspector = new ServiceInspector(service)
+
+    const handlers = inspector.getEnhancedMetadata().handlers
+    const paths = inspector.generateOpenAPI().paths
+
+    expect(Object.keys(handlers)).toEqual(['getUser.v1', 'getUser.v2'])
+    expect(handlers['getUser.v2']).toMatchObject({ name: 'getUser', version: '2', description: 'Get a user with split names' })
+    expect(Object.keys(paths)).toEqual(['/v1/getUser', '/v2/getUser'])
+  })
+})
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Runtime Enforcement of `.auth()` Requirements
+ *
+ * `.auth({ required, scopes })` is enforced by the built `method` once an `Authorizer`
+ * is available, either globally via `configureFramewerk({ auth: { authorizer } })` or
+ * per service via `.authorizer(...)` on the service builder (which takes precedence).
+ * The authorizer extracts the calling principal from the request context; before the
+ * resolver runs, the handler returns:
+ *
+ * - `err(AuthenticationError)` when `required` is set, or scopes are listed, and there
+ *   is no principal
+ * - `err(AuthorizationError)` when the principal lacks one of the listed scopes
+ *
+ * Without an authorizer `.auth()` stays informational, as it was before.
+ *
+ * @example
+ * ```typescript
+ * const sessionAuthorizer: Authorizer = {
+ *   authenticate: (ctx) =>
+ *     ctx.session ? { id: ctx.session.userId, scopes: ctx.session.permissions } : undefined,
+ * }
+ *
+ * configureFramewerk({ auth: { authorizer: sessionAuthorizer } })
+ * ```
+ */
+
+import { AuthenticationError, AuthorizationError } from "./errors.ts"
+import type { HandlerAuth } from "./handler.ts"
+import type { HandlerContext, HandlerOptions } from "./types.ts"
+
+/**
+ * The authenticated caller of a handler
+ */
+export interface Principal {
+  id?: string
+  /** Scopes granted to the caller */
+  scopes?: readonly string[]
+}
+
+/**
+ * Extracts the calling principal from a request
+ */
+export interface Authorizer {
+  /** Resolve the principal of the request, or `undefined` when it is unauthenticated */
+  authenticate(
+    ctx: HandlerContext,
+    options: HandlerOptions | undefined
+  ): Principal | undefined | Promise<Principal | undefined>
+}
+
+/**
+ * Global authorization settings
+ */
+export interface AuthConfig {
+  /** Authorizer used by handlers outside of services with their own authorizer */
+  authorizer?: Authorizer
+}
+
+/**
+ * Whether `.auth()` settings require anything of the caller
+ */
+export function isAuthEnforced(auth: HandlerAuth | undefined): boolean {
+  return Boolean(auth?.required || auth?.scopes?.length)
+}
+
+/**
+ * Check the authenticated principal against a handler's `.auth()` settings. Returns the
+ * error to fail with, or `undefined` when the call is allowed.
+ */
+export function authorize(
+  auth: HandlerAuth,
+  principal: Principal | undefined
+): AuthenticationError | AuthorizationError | undefined {
+  if (!principal) {
+    return new AuthenticationError("no authenticated principal")
+  }
+
+  const granted = principal.scopes || []
+  const missing = (auth.scopes || []).filter((scope) => !granted.includes(scope))
+  return missing.length > 0 ? new AuthorizationError(missing) : undefined
+}
@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Request Batching for Handlers
+ *
+ * Handlers defined with `.batch<Deps>(fn, options?)` instead of `.handler()` resolve many
+ * inputs at once, DataLoader-style. Callers still call the single-item `method`; the
+ * validated inputs of the calls made within the same tick of the event loop (or within
+ * `windowMs`) are collected and passed to `fn` as an array, and `fn` returns one `Result`
+ * per input, in the same order.
+ *
+ * - Duplicate inputs share one slot of the batch and receive the same `Result`. Inputs
+ *   are compared structurally unless a `key` function is given.
+ * - `maxBatchSize` splits large batches; a full batch is dispatched right away.
+ * - Batches never mix requests: calls are grouped by `ctx.requestId`, or by the context
+ *   object the request was made with when there is none (the one passed to the outermost
+ *   handler or service call, see the invocation scope), unless a `scope` function is
+ *   given. Calls made without a context, such as service calls without `ctx`, belong to
+ *   no request in particular and are batched together. `fn` receives the context and options of the first call of its batch, except
+ *   for the limits: its signal aborts once every call of the batch was aborted, and its
+ *   deadline is the latest one of the calls, so that one caller giving up does not fail
+ *   the others.
+ *
+ * Everything around the resolver (input and output validation, middleware, timeouts,
+ * retries, caching) still runs per call.
+ *
+ * @example
+ * ```typescript
+ * const getUser = defineHandler("users.get", "Get a user")
+ *   .input(GetUserInput)
+ *   .output(User)
+ *   .errors([UserNotFoundError])
+ *   .batch<UserDeps>(
+ *     async (inputs, ctx) => {
+ *       const users = await ctx.deps.users.findMany(inputs.map((input) => input.id))
+ *       return inputs.map((input) => {
+ *         const user = users.find((candidate) => candidate.id === input.id)
+ *         return user ? ok(user) : err(new UserNotFoundError(input.id))
+ *       })
+ *     },
+ *     { maxBatchSize: 100, key: (input) => input.id }
+ *   )
+ *   .build()
+ * ```
+ */
+
+import type { Result } from "neverthrow"
+import { stableStringify } from "./hashing.ts"
+import { getCurrentInvocation } from "./invocation.ts"
+import type { HandlerContext, HandlerFunctionContext, HandlerOptions } from "./types.ts"
+
+/**
+ * Batch handler function signature used by `.batch()`: one `Result` per input
+ */
+export type BatchHandlerFunction<TInput, TOkOutput, TErrorOutput, TDeps = unknown, TCtx = object> = (
+  inputs: TInput[],
+  ctx: HandlerFunctionContext<TDeps, TCtx>
+) => Promise<Array<Result<TOkOutput, TErrorOutput>>>
+
+/**
+ * Options of `.batch()`
+ */
+export interface BatchOptions<TInput = unknown> {
+  /** Largest number of distinct inputs per batch (default: unlimited) */
+  maxBatchSize?: number
+  /** How long to collect calls in milliseconds (default: `0`, the current tick) */
+  windowMs?: number
+  /** Identify duplicate inputs (default: structural equality of the input) */
+  key?: (input: TInput) => unknown
+  /** Identify the request a call belongs to (default: `ctx.requestId`, then the request's context object) */
+  scope?: (ctx: HandlerContext, options: HandlerOptions | undefined) => unknown
+}
+
+/**
+ * Batch settings exposed in handler metadata
+ */
+export interface BatchMetadata {
+  maxBatchSize?: number
+  windowMs: number
+}
+
+/**
+ * Describe batch options for metadata
+ */
+export function describeBatchOptions(options: BatchOptions<never>): BatchMetadata {
+  if (options.maxBatchSize !== undefined && !(Number.isInteger(options.maxBatchSize) && options.maxBatchSize > 0)) {
+    throw new Error(`Invalid maximum batch size: ${options.maxBatchSize}`)
+  }
+  return {
+    maxBatchSize: options.maxBatchSize,
+    windowMs: options.windowMs ?? 0,
+  }
+}
+
+// A batch being collected: its distinct inputs and the calls waiting for each of them
+interface PendingBatch<TInput, T, E> {
+  // Options of every call, in order
+  options: Array<HandlerOptions | undefined>
+  ctx: HandlerContext
+  entries: Map<unknown, { input: TInput; waiters: Array<{ resolve: (result: Result<T, E>) => void; reject: (error: unknown) => void }> }>
+  timer?: ReturnType<typeof setTimeout>
+}
+
+// Options of a batch: those of its first call, with the latest deadline of the calls and
+// a signal that aborts once the signals of all calls have. A call without a deadline or
+// signal leaves the batch without one.
+function batchOptions(calls: Array<HandlerOptions | undefined>): HandlerOptions | undefined {
+  const [first] = calls
+
+  const deadlines = calls.map((call) => call?.deadline)
+  const deadline = deadlines.every((value) => value !== undefined) ? Math.max(...deadlines) : undefined
+
+  const signals = calls.map((call) => call?.signal)
+  if (!signals.every((value) => value !== undefined)) {
+    return { ...first, deadline, signal: undefined }
+  }
+  const controller = new AbortController()
+  const pending = new Set(signals.filter((value) => !value.aborted))
+  for (const value of pending) {
+    value.addEventListener(
+      "abort",
+      () => {
+        pending.delete(value)
+        if (pending.size === 0) {
+          controller.abort(value.reason)
+        }
+      },
+      { once: true }
+    )
+  }
+  if (pending.size === 0) {
+    controller.abort(signals[0]!.reason)
+  }
+  return { ...first, deadline, signal: controller.signal }
+}
+
+/**
+ * Create the single-item loader of a batch handler: every call joins the pending batch
+ * of its request, which is passed to `run` once its window closes or it is full.
+ */
+export function createBatchLoader<TInput, T, E>(
+  operationId: string,
+  options: BatchOptions<TInput>,
+  run: (inputs: TInput[], options: HandlerOptions | undefined, ctx: HandlerContext) => Promise<Array<Result<T, E>>>
+): (input: TInput, options: HandlerOptions | undefined, ctx: HandlerContext) => Promise<Result<T, E>> {
+  const pending = new Map<unknown, PendingBatch<TInput, T, E>>()
+
+  const dispatch = (scope: unknown, batch: PendingBatch<TInput, T, E>) => {
+    clearTimeout(batch.timer)
+    if (pending.get(scope) === batch) {
+      pending.delete(scope)
+    }
+
+    const entries = [...batch.entries.values()]
+    Promise.resolve()
+      .then(() => run(entries.map((entry) => entry.input), batchOptions(batch.options), batch.ctx))
+      .then((results) => {
+        if (results.length !== entries.length) {
+          throw new Error(
+            `Batch handler "${operationId}" returned ${results.length} results for ${entries.length} inputs`
+          )
+        }
+        entries.forEach((entry, index) => entry.waiters.forEach(({ resolve }) => resolve(results[index]!)))
+      })
+      .catch((error: unknown) => entries.forEach((entry) => entry.waiters.forEach(({ reject }) => reject(error))))
+  }
+
+  return (input, invocationOptions, ctx) => {
+    const scope =
+      (options.scope ? options.scope(ctx, invocationOptions) : ctx.requestId) ?? getCurrentInvocation()?.request ?? ctx
+    let batch = pending.get(scope)
+    if (!batch) {
+      const created: PendingBatch<TInput, T, E> = { options: [], ctx, entries: new Map() }
+      created.timer = setTimeout(() => dispatch(scope, created), options.windowMs ?? 0)
+      pending.set(scope, created)
+      batch = created
+    }
+
+    const current = batch
+    current.options.push(invocationOptions)
+    const key = options.key ? options.key(input) : stableStringify(input)
+    return new Promise<Result<T, E>>((resolve, reject) => {
+      const entry = current.entries.get(key)
+      if (entry) {
+        entry.waiters.push({ resolve, reject })
+      } else {
+        current.entries.set(key, { input, waiters: [{ resolve, reject }] })
+      }
+      if (options.maxBatchSize !== undefined && current.entries.size >= options.maxBatchSize) {
+        dispatch(scope, current)
+      }
+    })
+  }
+}
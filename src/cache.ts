@@ -0,0 +1,286 @@
+/**
+ * @fileoverview Result Caching for Cacheable Handlers
+ *
+ * Handlers marked with `.cache({ ttl, key })` memoize successful results. The cache key
+ * is derived deterministically from the validated input and, optionally, selected
+ * context fields, and is scoped per handler (`operationId`, plus the version of handlers
+ * versioned with `.version()`). Error results are never cached.
+ *
+ * Caching wraps the resolver only: middleware (authentication, tenancy, ...) still runs
+ * on every call, and context fields provided by middleware can be part of the key.
+ *
+ * Entries belong to the dependencies object the handler instance was created with:
+ * instances created with the same dependencies share them, and instances given other
+ * dependencies (e.g. another tenant's database) never see them. `shared: true` shares
+ * the entries of every instance instead, for handlers whose dependencies never select
+ * the data they return.
+ *
+ * Entries live in a pluggable `CacheStore`; `InMemoryLRUCacheStore` is used by default.
+ * Handlers that change the underlying data invalidate entries with `invalidateCache`.
+ *
+ * @example
+ * ```typescript
+ * const getAccount = defineHandler("accounts.get", "Get an account")
+ *   .input(GetAccountInput)
+ *   .output(Account)
+ *   .cache({ ttl: 60_000, key: { context: ["tenantId"] } })
+ *   .withDependencies<AccountDeps>()
+ *   .resolver((deps) => async (input) => deps.accounts.get(input.id))
+ *   .build()
+ *
+ * const updateAccount = defineHandler("accounts.update", "Update an account")
+ *   // ...
+ *   .resolver((deps) => async (input, _options, ctx) => {
+ *     const account = await deps.accounts.update(input)
+ *     await invalidateCache("accounts.get", { id: input.id }, ctx)
+ *     return ok(account)
+ *   })
+ *   .build()
+ * ```
+ */
+
+import type { z } from "zod"
+import { ok, type Result } from "neverthrow"
+import { hashValue } from "./hashing.ts"
+import type { HandlerContext } from "./types.ts"
+
+/**
+ * A cached value; wrapped so that cached `undefined` outputs can be told apart from misses
+ */
+export interface CacheEntry {
+  value: unknown
+}
+
+/**
+ * Storage backend for cached handler results
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>
+  set(key: string, value: unknown, ttlMs: number): Promise<void>
+  delete(key: string): Promise<void>
+  /** Remove every entry whose key starts with `prefix` */
+  deleteByPrefix(prefix: string): Promise<void>
+}
+
+/**
+ * How the cache key is derived
+ *
+ * - `{ context: [...] }`: the validated input plus the listed context fields
+ * - a function: its return value, hashed; receives the validated input and context
+ */
+export type CacheKeyOptions =
+  | { context?: readonly string[] }
+  | ((input: unknown, ctx: HandlerContext) => unknown)
+
+/**
+ * Handler-level cache settings
+ */
+export interface CacheOptions {
+  /** Time to live in milliseconds */
+  ttl: number
+  /** Key derivation (default: the validated input only) */
+  key?: CacheKeyOptions
+  /** Store to use instead of the globally configured one */
+  store?: CacheStore
+  /**
+   * Share entries between every instance of the handler, whatever its dependencies
+   * (default: `false`, entries are kept per dependencies object)
+   */
+  shared?: boolean
+}
+
+/**
+ * Serializable summary of a handler's cache settings, as found in handler metadata
+ */
+export interface CacheMetadata {
+  ttl: number
+  /** Context fields that are part of the key, or `"custom"` for a key function */
+  key: string[] | "custom"
+  shared: boolean
+}
+
+/**
+ * Summarize cache settings for metadata
+ */
+export function describeCacheOptions(options: CacheOptions): CacheMetadata {
+  return {
+    ttl: options.ttl,
+    key: typeof options.key === "function" ? "custom" : [...(options.key?.context ?? [])],
+    shared: options.shared ?? false,
+  }
+}
+
+// Identifiers of the dependencies objects handler instances were created with
+const dependencyIds = new WeakMap<object, number>()
+let nextDependencyId = 1
+
+/**
+ * Identify the partition of a handler's entries used by an instance created with `deps`
+ */
+export function cachePartitionFor(options: Pick<CacheOptions, "shared">, deps: unknown): string {
+  if (options.shared || typeof deps !== "object" || deps === null) {
+    return "shared"
+  }
+  let id = dependencyIds.get(deps)
+  if (id === undefined) {
+    id = nextDependencyId++
+    dependencyIds.set(deps, id)
+  }
+  return String(id)
+}
+
+/**
+ * In-memory cache store with per-entry expiry and least-recently-used eviction
+ */
+export class InMemoryLRUCacheStore implements CacheStore {
+  private entries = new Map<string, { value: unknown; expiresAt: number }>()
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return undefined
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return undefined
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return { value: entry.value }
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string
+      this.entries.delete(oldest)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async deleteByPrefix(prefix: string): Promise<void> {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key)
+      }
+    }
+  }
+
+  /** Number of stored entries, including expired ones not yet evicted */
+  get size(): number {
+    return this.entries.size
+  }
+
+  /** Remove all entries */
+  clear(): void {
+    this.entries.clear()
+  }
+}
+
+/**
+ * Compute the store key of an input, without the partition of the handler instance
+ * (see `runCached`)
+ *
+ * @param scope - The handler's operationId, suffixed with `@<version>` for versioned handlers
+ */
+export function cacheKeyFor(
+  scope: string,
+  options: Pick<CacheOptions, "key">,
+  input: unknown,
+  ctx: HandlerContext = {}
+): string {
+  const key = options.key
+  const identity =
+    typeof key === "function"
+      ? key(input, ctx)
+      : {
+          input,
+          context: Object.fromEntries((key?.context ?? []).map((field) => [field, ctx[field]])),
+        }
+  return `${scope}:${hashValue(identity)}`
+}
+
+/**
+ * Run a resolver invocation through the cache, storing successful results only. Entries
+ * are stored under the input's key suffixed with the instance's `partition`, so that
+ * `invalidateCache` removes those of every instance by prefix
+ */
+export async function runCached<T, E>(
+  scope: string,
+  partition: string,
+  options: CacheOptions & { store: CacheStore },
+  input: unknown,
+  ctx: HandlerContext,
+  execute: () => Promise<Result<T, E>>
+): Promise<Result<T, E>> {
+  const key = `${cacheKeyFor(scope, options, input, ctx)}:${partition}`
+  const cached = await options.store.get(key)
+  if (cached) {
+    return ok(cached.value as T)
+  }
+
+  const result = await execute()
+  if (result.isOk()) {
+    await options.store.set(key, result.value, options.ttl)
+  }
+  return result
+}
+
+// Cache settings of every built cacheable handler, by operationId and then by scope, so
+// that every version of an operation is known
+const cachedHandlers = new Map<
+  string,
+  Map<string, { options: CacheOptions; input: z.ZodTypeAny; store: () => CacheStore }>
+>()
+
+/**
+ * Record a cacheable handler so that `invalidateCache` can find its settings and input
+ * schema. Called by `HandlerBuilder.build()`.
+ */
+export function registerCachedHandler(
+  operationId: string,
+  scope: string,
+  options: CacheOptions,
+  input: z.ZodTypeAny,
+  store: () => CacheStore
+): void {
+  const scopes = cachedHandlers.get(operationId) ?? new Map()
+  scopes.set(scope, { options, input, store })
+  cachedHandlers.set(operationId, scopes)
+}
+
+/**
+ * Invalidate cached results of a handler
+ *
+ * With an `input`, only the entries for that input (and the key's context fields taken
+ * from `ctx`) are removed; the input is parsed with the handler's input schema first, like
+ * the inputs results were cached for. Without one, every entry of the handler is removed.
+ * Entries of every version and every instance of the handler are invalidated. Unknown
+ * operationIds, and inputs the handler would reject, are ignored.
+ */
+export async function invalidateCache(
+  operationId: string,
+  input?: unknown,
+  ctx?: HandlerContext
+): Promise<void> {
+  for (const [scope, registration] of cachedHandlers.get(operationId) ?? []) {
+    const store = registration.store()
+    if (input === undefined) {
+      await store.deleteByPrefix(`${scope}:`)
+      continue
+    }
+    const parsed = registration.input.safeParse(input)
+    if (parsed.success) {
+      await store.deleteByPrefix(`${cacheKeyFor(scope, registration.options, parsed.data, ctx)}:`)
+    }
+  }
+}
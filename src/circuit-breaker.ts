@@ -0,0 +1,263 @@
+/**
+ * @fileoverview Circuit Breakers for Handlers
+ *
+ * `.circuitBreaker({ on, ... })` stops calling a failing dependency instead of letting
+ * every invocation wait for it. The breaker counts the results of the handler over a
+ * rolling window; results with an error class listed in `on`, and thrown exceptions,
+ * are failures.
+ *
+ * - `closed`: calls go through. Once at least `minimumCalls` calls were made within
+ *   `windowMs` and the share of failures reaches `failureRate`, the circuit opens.
+ * - `open`: calls fail fast with `err(CircuitOpenError)` for `resetTimeoutMs`.
+ * - `half-open`: then up to `halfOpenCalls` trial calls go through. The circuit closes
+ *   when all of them succeed and opens again on the first failure.
+ *
+ * The breaker covers every instance created from the built handler factory. Its state
+ * is listed in introspection (`HandlerMetadata.circuitBreaker`) and follows the clock:
+ * an open circuit reads half-open once `resetTimeoutMs` has passed. Every transition is
+ * reported, when the next call observes it, to the handler's `onStateChange` hook or
+ * the global one configured with `configureFramewerk({ circuitBreaker: { onStateChange } })`.
+ *
+ * @example
+ * ```typescript
+ * const getRates = defineHandler("rates.get", "Fetch exchange rates")
+ *   .input(RatesInput)
+ *   .output(Rates)
+ *   .errors([NetworkTimeoutError])
+ *   .circuitBreaker({ on: [NetworkTimeoutError], failureRate: 0.5, resetTimeoutMs: 10_000 })
+ *   .handler<RatesDeps>(async (input, ctx) => ctx.deps.ratesApi.fetch(input.currency))
+ *   .build()
+ * ```
+ */
+
+import type { Result } from "neverthrow"
+import { err } from "neverthrow"
+import { CircuitOpenError } from "./errors.ts"
+import { getFramewerkConfig } from "./config.ts"
+import type { ErrorClassConstructor } from "./handler.ts"
+
+/**
+ * State of a circuit breaker
+ */
+export type CircuitState = "closed" | "open" | "half-open"
+
+/**
+ * Report passed to `onStateChange` hooks
+ */
+export interface CircuitStateChange {
+  operationId: string
+  from: CircuitState
+  to: CircuitState
+}
+
+/**
+ * Options of `.circuitBreaker()`
+ */
+export interface CircuitBreakerOptions {
+  /** Error classes whose `_tag` makes a result count as a failure */
+  on: readonly ErrorClassConstructor[]
+  /** Share of failed calls that opens the circuit, between 0 and 1 (default: 0.5) */
+  failureRate?: number
+  /** Calls needed within the window before the failure rate is evaluated (default: 5) */
+  minimumCalls?: number
+  /** Length of the rolling window in milliseconds (default: 60 seconds) */
+  windowMs?: number
+  /** How long the circuit stays open in milliseconds (default: 30 seconds) */
+  resetTimeoutMs?: number
+  /** Trial calls let through while half-open (default: 1) */
+  halfOpenCalls?: number
+  /** Called on every state transition, instead of the global hook */
+  onStateChange?: (change: CircuitStateChange) => void
+}
+
+/**
+ * Serializable summary of circuit breaker options, as found in handler metadata
+ */
+export interface CircuitBreakerMetadata {
+  on: string[]
+  failureRate: number
+  minimumCalls: number
+  windowMs: number
+  resetTimeoutMs: number
+  halfOpenCalls: number
+}
+
+/**
+ * Global circuit breaker settings
+ */
+export interface CircuitBreakerConfig {
+  /** Called on every state transition of breakers without their own hook */
+  onStateChange?: (change: CircuitStateChange) => void
+}
+
+/**
+ * Live state of a circuit breaker
+ */
+export interface CircuitBreakerStats {
+  state: CircuitState
+  /** Calls and failures within the current window */
+  calls: number
+  failures: number
+  /** When the circuit last opened, in ISO 8601 format */
+  openedAt?: string
+}
+
+/**
+ * Summarize circuit breaker options given the `_tag`s of the failure error classes
+ */
+export function describeCircuitBreaker(options: CircuitBreakerOptions, tags: string[]): CircuitBreakerMetadata {
+  const failureRate = options.failureRate ?? 0.5
+  if (!(failureRate > 0 && failureRate <= 1)) {
+    throw new Error(`Invalid circuit breaker failure rate: ${failureRate}`)
+  }
+  return {
+    on: tags,
+    failureRate,
+    minimumCalls: options.minimumCalls ?? 5,
+    windowMs: options.windowMs ?? 60_000,
+    resetTimeoutMs: options.resetTimeoutMs ?? 30_000,
+    halfOpenCalls: options.halfOpenCalls ?? 1,
+  }
+}
+
+/**
+ * Tracks the results of a handler and fails calls fast while its circuit is open
+ */
+export class CircuitBreaker {
+  // Whether the circuit is open; it counts as half-open once the reset timeout passed
+  private tripped = false
+  private outcomes: Array<{ at: number; failed: boolean }> = []
+  private openedAt?: number
+  // Trial calls started and succeeded since the circuit opened
+  private trials = 0
+  private trialSuccesses = 0
+  // Last state passed to `onStateChange`
+  private reported: CircuitState = "closed"
+
+  constructor(
+    private readonly operationId: string,
+    readonly settings: CircuitBreakerMetadata,
+    private readonly onStateChange?: (change: CircuitStateChange) => void
+  ) {}
+
+  /**
+   * Run `execute` unless the circuit is open, recording its outcome
+   */
+  async run<T, E>(execute: () => Promise<Result<T, E>>): Promise<Result<T, E | CircuitOpenError>> {
+    const now = Date.now()
+    const state = this.getState(now)
+    this.report(state)
+    const rejection = this.admit(state, now)
+    if (rejection) {
+      return err(rejection)
+    }
+
+    // Trials are told apart by the opening they follow
+    const trialOf = state === "half-open" ? this.openedAt : undefined
+    let result: Result<T, E>
+    try {
+      result = await execute()
+    } catch (error) {
+      this.record(true, trialOf)
+      throw error
+    }
+    this.record(result.isErr() && this.isFailure(result.error), trialOf)
+    return result
+  }
+
+  /**
+   * State at the given time: the circuit half-opens as soon as the reset timeout has
+   * passed, whether or not a call arrived since
+   */
+  getState(now = Date.now()): CircuitState {
+    if (!this.tripped) {
+      return "closed"
+    }
+    return now >= this.openedAt! + this.settings.resetTimeoutMs ? "half-open" : "open"
+  }
+
+  /** Current state, with calls and failures of the current window */
+  stats(): CircuitBreakerStats {
+    const now = Date.now()
+    const outcomes = this.outcomes.filter((outcome) => outcome.at > now - this.settings.windowMs)
+    return {
+      state: this.getState(now),
+      calls: outcomes.length,
+      failures: outcomes.filter((outcome) => outcome.failed).length,
+      openedAt: this.openedAt === undefined ? undefined : new Date(this.openedAt).toISOString(),
+    }
+  }
+
+  private admit(state: CircuitState, now: number): CircuitOpenError | undefined {
+    if (state === "open") {
+      return new CircuitOpenError(this.operationId, this.openedAt! + this.settings.resetTimeoutMs - now)
+    }
+    if (state === "half-open") {
+      if (this.trials >= this.settings.halfOpenCalls) {
+        return new CircuitOpenError(this.operationId, 0)
+      }
+      this.trials++
+    }
+    return undefined
+  }
+
+  private record(failed: boolean, trialOf: number | undefined) {
+    const now = Date.now()
+    if (trialOf !== undefined) {
+      // Outcomes of trial calls that finish after the circuit closed or opened again are ignored
+      if (!this.tripped || this.openedAt !== trialOf) {
+        return
+      }
+      if (failed) {
+        this.open(now)
+      } else if (++this.trialSuccesses >= this.settings.halfOpenCalls) {
+        this.tripped = false
+        this.outcomes = []
+        this.report("closed")
+      }
+      return
+    }
+    if (this.tripped) {
+      return
+    }
+
+    this.outcomes = this.outcomes.filter((outcome) => outcome.at > now - this.settings.windowMs)
+    this.outcomes.push({ at: now, failed })
+    const failures = this.outcomes.filter((outcome) => outcome.failed).length
+    if (
+      this.outcomes.length >= this.settings.minimumCalls &&
+      failures / this.outcomes.length >= this.settings.failureRate
+    ) {
+      this.open(now)
+    }
+  }
+
+  private open(now: number) {
+    this.tripped = true
+    this.openedAt = now
+    this.trials = 0
+    this.trialSuccesses = 0
+    this.report("open")
+  }
+
+  // Transitions are reported as calls observe them: the circuit is reported half-open
+  // on the first call after the reset timeout
+  private report(to: CircuitState) {
+    const from = this.reported
+    if (from === to) {
+      return
+    }
+    this.reported = to
+    const onStateChange = this.onStateChange ?? getFramewerkConfig().circuitBreaker.onStateChange
+    onStateChange?.({ operationId: this.operationId, from, to })
+  }
+
+  private isFailure(error: unknown): boolean {
+    return (
+      typeof error === "object" &&
+      error !== null &&
+      "_tag" in error &&
+      this.settings.on.includes((error as { _tag: unknown })._tag as string)
+    )
+  }
+}
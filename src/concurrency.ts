@@ -0,0 +1,185 @@
+/**
+ * @fileoverview Concurrency Limits (Bulkheads)
+ *
+ * `.concurrency({ max, queue?, queueTimeoutMs? })` bounds how many invocations run at
+ * the same time, so that one expensive handler cannot exhaust a shared resource such as
+ * a database pool:
+ *
+ * - up to `max` invocations run concurrently
+ * - up to `queue` further invocations wait for a free slot, in arrival order, for at
+ *   most `queueTimeoutMs` if set
+ * - anything beyond that returns `err(HandlerOverloadedError)` right away
+ * - queued invocations leave the queue with `err(HandlerTimeoutError)` when the caller's
+ *   deadline passes or its signal fires (`options.deadline` and `options.signal`, or
+ *   those of the enclosing invocation)
+ * - an invocation that returned `err(HandlerTimeoutError)` keeps its slot until its
+ *   resolver, which may ignore the abort signal, has settled
+ *
+ * On a handler the limit covers every instance created from the built factory and is
+ * checked after `.auth()` and `.rateLimit()`. On a service (`.concurrency()` on the
+ * service builder) it covers the `Result`-returning handlers of every `make()` instance
+ * together. `ServiceInspector.getConcurrencyStats()` reports the live in-flight and
+ * queued counts of both.
+ *
+ * @example
+ * ```typescript
+ * const generateReport = defineHandler("reports.generate", "Generate a report")
+ *   .input(ReportInput)
+ *   .output(Report)
+ *   .concurrency({ max: 2, queue: 10, queueTimeoutMs: 5_000 })
+ *   .handler<ReportDeps>(async (input, ctx) => ok(await ctx.deps.reports.generate(input)))
+ *   .build()
+ * ```
+ */
+
+import { err, type Result } from "neverthrow"
+import { HandlerOverloadedError, type HandlerTimeoutError } from "./errors.ts"
+import {
+  exceededInvocationLimits,
+  getCurrentInvocation,
+  resolveInvocationLimits,
+  runInInvocation,
+  watchInvocationLimits,
+} from "./invocation.ts"
+import type { HandlerOptions } from "./types.ts"
+
+/**
+ * Options of `.concurrency()`
+ */
+export interface ConcurrencyOptions {
+  /** Invocations allowed to run at the same time */
+  max: number
+  /** Invocations allowed to wait for a free slot (default: `0`) */
+  queue?: number
+  /** How long a queued invocation waits before failing (default: no limit) */
+  queueTimeoutMs?: number
+}
+
+/**
+ * Live state of a concurrency limit
+ */
+export interface ConcurrencyStats {
+  max: number
+  queue: number
+  inFlight: number
+  queued: number
+}
+
+/**
+ * The invocation waiting for a slot, whose limits bound its time in the queue
+ */
+export interface QueuedInvocation {
+  operationId: string
+  options: HandlerOptions | undefined
+}
+
+/**
+ * Limits the concurrent invocations of a handler or service
+ */
+export class Bulkhead {
+  private inFlight = 0
+  private waiting: Array<() => void> = []
+
+  /**
+   * @param target - Names the limited handler or service in error messages
+   */
+  constructor(
+    private readonly target: string,
+    readonly options: ConcurrencyOptions
+  ) {
+    if (!(Number.isInteger(options.max) && options.max > 0)) {
+      throw new Error(`Invalid concurrency limit: ${options.max}`)
+    }
+  }
+
+  /**
+   * Run `execute` once a slot is free, or return `HandlerOverloadedError` when none
+   * becomes available and `HandlerTimeoutError` when `invocation` gives up waiting.
+   * The slot is freed once `execute` and any work outliving it (see
+   * `InvocationScope.outlive`) have settled
+   */
+  async run<T, E>(
+    execute: () => Promise<Result<T, E>>,
+    invocation?: QueuedInvocation
+  ): Promise<Result<T, E | HandlerOverloadedError | HandlerTimeoutError>> {
+    const rejection = await this.acquire(invocation)
+    if (rejection) {
+      return err(rejection)
+    }
+    const scope = getCurrentInvocation()
+    const outliving: Promise<unknown>[] = []
+    const outlive = (work: Promise<unknown>) => {
+      outliving.push(work)
+      scope?.outlive?.(work)
+    }
+    try {
+      return await runInInvocation({ ...scope, outlive }, execute)
+    } finally {
+      if (outliving.length > 0) {
+        void Promise.allSettled(outliving).then(() => this.release())
+      } else {
+        this.release()
+      }
+    }
+  }
+
+  /** Current in-flight and queued invocations */
+  stats(): ConcurrencyStats {
+    return {
+      max: this.options.max,
+      queue: this.options.queue ?? 0,
+      inFlight: this.inFlight,
+      queued: this.waiting.length,
+    }
+  }
+
+  private async acquire(
+    invocation: QueuedInvocation | undefined
+  ): Promise<HandlerOverloadedError | HandlerTimeoutError | undefined> {
+    if (this.inFlight < this.options.max) {
+      this.inFlight++
+      return undefined
+    }
+    if (this.waiting.length >= (this.options.queue ?? 0)) {
+      return new HandlerOverloadedError(this.target)
+    }
+
+    // The handler's own `.timeout()` only starts once it runs
+    const limits = invocation && resolveInvocationLimits(undefined, invocation.options)
+    const exceeded = limits && exceededInvocationLimits(invocation.operationId, limits)
+    if (exceeded) {
+      return exceeded
+    }
+
+    const { queueTimeoutMs } = this.options
+    return new Promise((resolve) => {
+      const watch = limits && watchInvocationLimits(invocation.operationId, limits, new AbortController())
+      const settle = (rejection?: HandlerOverloadedError | HandlerTimeoutError) => {
+        clearTimeout(timer)
+        watch?.stop()
+        resolve(rejection)
+      }
+      const grant = () => settle()
+      const leave = (rejection: HandlerOverloadedError | HandlerTimeoutError) => {
+        this.waiting = this.waiting.filter((waiter) => waiter !== grant)
+        settle(rejection)
+      }
+      const timer =
+        queueTimeoutMs === undefined
+          ? undefined
+          : setTimeout(() => leave(new HandlerOverloadedError(this.target, queueTimeoutMs)), queueTimeoutMs)
+      void watch?.aborted.then(leave)
+      this.waiting.push(grant)
+    })
+  }
+
+  // Hand the slot over to the next queued invocation, if any
+  private release() {
+    const next = this.waiting.shift()
+    if (next) {
+      next()
+    } else {
+      this.inFlight--
+    }
+  }
+}
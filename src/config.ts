@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Global Runtime Configuration
+ *
+ * This module holds process-wide defaults for the runtime behaviour of built handlers.
+ * Handler-level settings always take precedence over the values configured here, and
+ * the configuration is read at call time, so changes apply to handlers that were
+ * already built.
+ *
+ * @example
+ * ```typescript
+ * configureFramewerk({
+ *   outputValidation: {
+ *     mode: process.env.NODE_ENV === "production" ? "warn" : "strict",
+ *     stripUnknown: true,
+ *     onWarning: (warning) => logger.warn("Output contract drift", warning),
+ *   },
+ * })
+ * ```
+ */
+
+import type { ValidationIssue } from "./errors.ts"
+import { InMemoryIdempotencyStore, type IdempotencyStore } from "./idempotency.ts"
+import { InMemoryLRUCacheStore, type CacheStore } from "./cache.ts"
+import type { DeprecationConfig } from "./deprecation.ts"
+import type { AuthConfig } from "./auth.ts"
+import { InMemoryTokenBucketStore, type RateLimitStore } from "./rate-limit.ts"
+import type { DefectConfig } from "./defects.ts"
+import type { CircuitBreakerConfig } from "./circuit-breaker.ts"
+import type { TransactionConfig } from "./transactions.ts"
+import type { HooksConfig } from "./hooks.ts"
+
+/**
+ * How built handlers check resolver output against the `Output` schema
+ *
+ * - `strict`: invalid output is replaced by `err(OutputValidationError)`
+ * - `warn`: invalid output is returned unchanged and reported through `onWarning`
+ * - `off`: output is not checked, though it is still parsed to strip unknown keys when
+ *   `stripUnknown` is set
+ */
+export type OutputValidationMode = "strict" | "warn" | "off"
+
+/**
+ * Report passed to the `onWarning` hook in `warn` mode
+ */
+export interface OutputValidationWarning {
+  operationId: string
+  issues: ValidationIssue[]
+  output: unknown
+}
+
+/**
+ * Output validation settings, configurable globally and per handler
+ */
+export interface OutputValidationConfig {
+  mode: OutputValidationMode
+  /**
+   * Return the schema-parsed value instead of the resolver's value when it validates,
+   * so keys unknown to `Output` never leak to callers. Applies in every mode, `off`
+   * included.
+   */
+  stripUnknown?: boolean
+  /** Called in `warn` mode for every invalid output; nothing is reported without it */
+  onWarning?: (warning: OutputValidationWarning) => void
+}
+
+/**
+ * Defaults for handlers marked with `.idempotent()`
+ */
+export interface IdempotencyConfig {
+  store: IdempotencyStore
+  /** How long records are kept in milliseconds (default: 24 hours) */
+  ttlMs: number
+}
+
+/**
+ * Defaults for handlers marked with `.cache()`
+ */
+export interface CacheConfig {
+  store: CacheStore
+}
+
+/**
+ * Defaults for handlers with `.rateLimit()`
+ */
+export interface RateLimitConfig {
+  store: RateLimitStore
+}
+
+/**
+ * Process-wide framework configuration
+ */
+export interface FramewerkConfig {
+  outputValidation: OutputValidationConfig
+  idempotency: IdempotencyConfig
+  cache: CacheConfig
+  deprecation: DeprecationConfig
+  auth: AuthConfig
+  rateLimit: RateLimitConfig
+  defects: DefectConfig
+  circuitBreaker: CircuitBreakerConfig
+  transactions: TransactionConfig
+  hooks: HooksConfig
+}
+
+/**
+ * Partial configuration accepted by `configureFramewerk` - every section is merged
+ * shallowly into the current configuration
+ */
+export type FramewerkConfigInput = {
+  [K in keyof FramewerkConfig]?: Partial<FramewerkConfig[K]>
+}
+
+const defaultConfig = (): FramewerkConfig => ({
+  outputValidation: {
+    mode: "off",
+    stripUnknown: false,
+  },
+  idempotency: {
+    store: new InMemoryIdempotencyStore(),
+    ttlMs: 24 * 60 * 60 * 1000,
+  },
+  cache: {
+    store: new InMemoryLRUCacheStore(),
+  },
+  deprecation: {},
+  auth: {},
+  rateLimit: {
+    store: new InMemoryTokenBucketStore(),
+  },
+  defects: {
+    capture: false,
+  },
+  circuitBreaker: {},
+  transactions: {},
+  hooks: {},
+})
+
+let currentConfig: FramewerkConfig = defaultConfig()
+
+/**
+ * Update the global configuration
+ */
+export function configureFramewerk(config: FramewerkConfigInput): FramewerkConfig {
+  const next = { ...currentConfig } as Record<string, unknown>
+
+  for (const [section, value] of Object.entries(config)) {
+    next[section] = { ...(next[section] as object | undefined), ...value }
+  }
+
+  currentConfig = next as unknown as FramewerkConfig
+  return currentConfig
+}
+
+/**
+ * Read the current global configuration
+ */
+export function getFramewerkConfig(): FramewerkConfig {
+  return currentConfig
+}
+
+/**
+ * Restore the default configuration (mainly useful between tests)
+ */
+export function resetFramewerkConfig(): FramewerkConfig {
+  currentConfig = defaultConfig()
+  return currentConfig
+}
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Defect Capture
+ *
+ * By default an exception thrown by a resolver, a dependency or middleware propagates
+ * out of the built `method` (and out of service handlers), bypassing `Result`. With
+ * defect capture enabled, such throws and rejections are returned as
+ * `err(UnexpectedError)` instead, carrying the handler's operationId and the thrown
+ * value as `cause`.
+ *
+ * Defects are reported through the `onDefect` hook, if configured, which keeps them
+ * apart from the declared domain errors callers handle themselves.
+ *
+ * @example
+ * ```typescript
+ * configureFramewerk({
+ *   defects: {
+ *     capture: true,
+ *     onDefect: (defect) => sentry.captureException(defect.cause, { tags: { operationId: defect.operationId } }),
+ *   },
+ * })
+ * ```
+ */
+
+import { err, type Result } from "neverthrow"
+import { UnexpectedError } from "./errors.ts"
+import { getFramewerkConfig } from "./config.ts"
+
+/**
+ * Defect capture settings, configurable globally
+ */
+export interface DefectConfig {
+  /** Return thrown exceptions as `err(UnexpectedError)` instead of rethrowing them */
+  capture: boolean
+  /** Called for every captured defect; nothing is reported without it */
+  onDefect?: (defect: UnexpectedError) => void
+}
+
+/**
+ * Turn a value thrown by a handler into a reported `UnexpectedError`. Returns
+ * `undefined` when defect capture is disabled, in which case the caller rethrows.
+ */
+export function captureDefect(operationId: string, error: unknown): UnexpectedError | undefined {
+  const settings = getFramewerkConfig().defects
+  if (!settings.capture) {
+    return undefined
+  }
+  // Already reported by the handler that threw it
+  if (error instanceof UnexpectedError) {
+    return error
+  }
+
+  const defect = new UnexpectedError(operationId, error)
+  settings.onDefect?.(defect)
+  return defect
+}
+
+/**
+ * Run an asynchronous handler call, capturing what it throws or rejects with
+ */
+export async function captureDefects<T, E>(
+  operationId: string,
+  run: () => Promise<Result<T, E>>
+): Promise<Result<T, E | UnexpectedError>> {
+  try {
+    return await run()
+  } catch (error) {
+    const defect = captureDefect(operationId, error)
+    if (!defect) {
+      throw error
+    }
+    return err(defect)
+  }
+}
+
+/**
+ * Run a synchronous handler call, capturing what it throws
+ */
+export function captureDefectsSync<T, E>(
+  operationId: string,
+  run: () => Result<T, E>
+): Result<T, E | UnexpectedError> {
+  try {
+    return run()
+  } catch (error) {
+    const defect = captureDefect(operationId, error)
+    if (!defect) {
+      throw error
+    }
+    return err(defect)
+  }
+}
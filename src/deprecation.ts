@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Deprecation Lifecycle for Handlers
+ *
+ * Handlers marked with `.deprecated({ since, reason?, replacement?, sunset? })` keep
+ * working but announce their retirement:
+ *
+ * - Introspection lists them through `HandlerMetadata.deprecated` (and
+ *   `MetadataUtils.findDeprecatedHandlers`), and OpenAPI operations get `deprecated: true`.
+ * - At runtime the first call of every caller is reported through the `onWarning` hook
+ *   configured with `configureFramewerk({ deprecation })`, if any.
+ *   Callers are told apart by `ctx.caller` unless a custom `caller` function is set;
+ *   the 10,000 most recently seen callers are remembered, others are warned again.
+ * - Once the optional `sunset` date has passed, the handler returns
+ *   `err(HandlerSunsetError)` without running.
+ *
+ * @example
+ * ```typescript
+ * const getUserLegacy = defineHandler("users.getLegacy", "Get a user (legacy shape)")
+ *   .deprecated({ since: "2.3.0", replacement: "users.get", sunset: "2025-06-30" })
+ *   .input(GetUserInput)
+ *   .output(LegacyUser)
+ *   .handler<UserDeps>(async (input, ctx) => ok(await ctx.deps.users.legacy(input.id)))
+ *   .build()
+ *
+ * configureFramewerk({
+ *   deprecation: {
+ *     caller: (_options, ctx) => ctx.session?.clientId,
+ *     onWarning: (warning) => logger.warn("Deprecated handler called", warning),
+ *   },
+ * })
+ * ```
+ */
+
+import { HandlerSunsetError } from "./errors.ts"
+import type { HandlerContext, HandlerOptions } from "./types.ts"
+
+/**
+ * Options of `.deprecated()`
+ */
+export interface DeprecationOptions {
+  /** Version or date the handler was deprecated in */
+  since: string
+  reason?: string
+  /** operationId of the handler to use instead */
+  replacement?: string
+  /** Date after which the handler returns `HandlerSunsetError` */
+  sunset?: Date | string
+}
+
+/**
+ * Deprecation details exposed in handler metadata
+ */
+export interface DeprecationMetadata {
+  since: string
+  reason?: string
+  replacement?: string
+  /** Sunset date in ISO 8601 format */
+  sunset?: string
+}
+
+/**
+ * Report passed to the `onWarning` hook on the first call of each caller
+ */
+export interface DeprecationWarning {
+  operationId: string
+  caller: string
+  deprecation: DeprecationMetadata
+}
+
+/**
+ * Runtime deprecation settings, configurable globally
+ */
+export interface DeprecationConfig {
+  /** Identify the caller (default: `ctx.caller`, or `"anonymous"`) */
+  caller?: (options: HandlerOptions | undefined, ctx: HandlerContext) => string | undefined
+  /** Called once per handler and caller; nothing is reported without it */
+  onWarning?: (warning: DeprecationWarning) => void
+}
+
+/**
+ * Normalize `.deprecated()` options for metadata
+ */
+export function describeDeprecation(options: DeprecationOptions): DeprecationMetadata {
+  const sunset = options.sunset === undefined ? undefined : new Date(options.sunset)
+  if (sunset && Number.isNaN(sunset.getTime())) {
+    throw new Error(`Invalid sunset date: ${String(options.sunset)}`)
+  }
+  return {
+    since: options.since,
+    reason: options.reason,
+    replacement: options.replacement,
+    sunset: sunset?.toISOString(),
+  }
+}
+
+// Most handler/caller pairs remembered as warned; the least recently seen pairs are
+// forgotten first and warned again on their next call
+const MAX_WARNED_CALLERS = 10_000
+
+// Handler/caller pairs that were already warned about, least recently seen first
+const warnedCallers = new Set<string>()
+
+/**
+ * Enforce the sunset date of a deprecated handler. Returns the `HandlerSunsetError` to
+ * fail with once the sunset has passed.
+ */
+export function checkSunset(
+  operationId: string,
+  deprecation: DeprecationMetadata
+): HandlerSunsetError | undefined {
+  if (deprecation.sunset && Date.parse(deprecation.sunset) <= Date.now()) {
+    return new HandlerSunsetError(operationId, deprecation.sunset, deprecation.replacement)
+  }
+  return undefined
+}
+
+/**
+ * Report the first use of a deprecated handler by each caller
+ */
+export function warnDeprecation(
+  operationId: string,
+  deprecation: DeprecationMetadata,
+  settings: DeprecationConfig,
+  options: HandlerOptions | undefined,
+  ctx: HandlerContext
+): void {
+  const caller =
+    (settings.caller
+      ? settings.caller(options, ctx)
+      : typeof ctx.caller === "string" ? ctx.caller : undefined) ?? "anonymous"
+  const warningKey = `${operationId}\u0000${caller}`
+  const warned = warnedCallers.delete(warningKey)
+  warnedCallers.add(warningKey)
+  if (warned) {
+    return
+  }
+
+  if (warnedCallers.size > MAX_WARNED_CALLERS) {
+    const [oldest] = warnedCallers
+    warnedCallers.delete(oldest!)
+  }
+  settings.onWarning?.({ operationId, caller, deprecation })
+}
+
+/**
+ * Forget which callers were warned, so the next call of each warns again (mainly
+ * useful between tests)
+ */
+export function resetDeprecationWarnings(): void {
+  warnedCallers.clear()
+}
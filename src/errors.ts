@@ -349,6 +349,33 @@ export class AuthenticationError extends FramewerkError.tagged("AuthenticationEr
   }
 }
 
+/**
+ * Error returned when the authenticated caller lacks scopes a handler requires
+ */
+export class AuthorizationError extends FramewerkError.tagged("AuthorizationError") {
+  static readonly httpStatus = 403
+
+  constructor(missingScopes: readonly string[] = []) {
+    super(
+      missingScopes.length > 0
+        ? `Missing required scopes: ${missingScopes.join(", ")}`
+        : "Not authorized"
+    )
+  }
+}
+
+/**
+ * Error returned when a requested entity does not exist.
+ * Used by the CRUD handler templates for get, update and delete.
+ */
+export class NotFoundError extends FramewerkError.tagged("NotFoundError") {
+  static readonly httpStatus = 404
+
+  constructor(entity: string, id?: string | number) {
+    super(id !== undefined ? `${entity} ${id} not found` : `${entity} not found`)
+  }
+}
+
 /**
  * Pattern 2: Using TaggedError factory function
  */
@@ -363,10 +390,388 @@ export const RedisConnectionError = TaggedError("RedisConnectionError")
  */
 export const NetworkTimeoutError = TaggedError("NetworkTimeoutError")
 
+// ============================================================================
+// Built-in Handler Errors - Produced by the framework itself
+// ============================================================================
+
+/**
+ * A single structured validation problem reported by Zod
+ */
+export interface ValidationIssue {
+  /** Path to the offending field, e.g. `["user", "email"]` */
+  path: Array<string | number>
+  /** Human-readable description of the problem */
+  message: string
+  /** Zod issue code, e.g. `invalid_type` or `too_small` */
+  code: string
+}
+
+/**
+ * Minimal shape of a Zod issue as found on `safeParse(...).error.issues`
+ */
+type ZodIssueLike = { path: ReadonlyArray<PropertyKey>; message: string; code: string }
+
+const validationIssueSchema = z.object({
+  path: z.array(z.union([z.string(), z.number()])),
+  message: z.string(),
+  code: z.string(),
+})
+
+const toValidationIssues = (issues: ReadonlyArray<ZodIssueLike>): ValidationIssue[] =>
+  issues.map((issue) => ({
+    path: issue.path.map((segment) => (typeof segment === "number" ? segment : String(segment))),
+    message: issue.message,
+    code: issue.code,
+  }))
+
+const summarizeIssues = (prefix: string, issues: ValidationIssue[]) => {
+  const summary = issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ")
+  return summary ? `${prefix}: ${summary}` : prefix
+}
+
+/**
+ * Error returned by built handlers when the input fails the handler's input schema.
+ *
+ * Added automatically to every handler's error union, `errors` map and `ErrorOutput`
+ * schema, so transports can map it to a 400/422 response without the resolver
+ * ever seeing invalid data.
+ */
+export class InputValidationError extends FramewerkError {
+  readonly _tag = "InputValidationError" as const
+  static readonly errorCode = "InputValidationError"
+  static readonly httpStatus: number = 422
+
+  /** Structured Zod issues with their paths */
+  readonly issues: ValidationIssue[]
+
+  static handlerError(status?: number) {
+    return {
+      code: "InputValidationError",
+      status: status ?? this.httpStatus,
+      schema: z.object({
+        code: z.literal("InputValidationError"),
+        message: z.string(),
+        issues: z.array(validationIssueSchema),
+      }),
+    } as const
+  }
+
+  /**
+   * Builds the error from a failed `safeParse` result's `error.issues`
+   */
+  static fromZodIssues(issues: ReadonlyArray<ZodIssueLike>) {
+    return new InputValidationError(toValidationIssues(issues))
+  }
+
+  constructor(issues: ValidationIssue[]) {
+    super(summarizeIssues("Invalid input", issues))
+    this.issues = issues
+  }
+
+  toHandlerError() {
+    return {
+      code: this._tag as this["_tag"],
+      message: this.message,
+      issues: this.issues,
+    } as const
+  }
+}
+
+/**
+ * Error returned by built handlers declaring `.context(schema)` when the request
+ * context does not match the schema, e.g. because a required `session` is missing.
+ *
+ * Added to the error union of those handlers only. Like input validation it runs
+ * before the resolver, so the resolver can rely on the typed context.
+ */
+export class ContextValidationError extends FramewerkError {
+  readonly _tag = "ContextValidationError" as const
+  static readonly errorCode = "ContextValidationError"
+  static readonly httpStatus: number = 400
+
+  /** Structured Zod issues with their paths */
+  readonly issues: ValidationIssue[]
+
+  static handlerError(status?: number) {
+    return {
+      code: "ContextValidationError",
+      status: status ?? this.httpStatus,
+      schema: z.object({
+        code: z.literal("ContextValidationError"),
+        message: z.string(),
+        issues: z.array(validationIssueSchema),
+      }),
+    } as const
+  }
+
+  /**
+   * Builds the error from a failed `safeParse` result's `error.issues`
+   */
+  static fromZodIssues(issues: ReadonlyArray<ZodIssueLike>) {
+    return new ContextValidationError(toValidationIssues(issues))
+  }
+
+  constructor(issues: ValidationIssue[]) {
+    super(summarizeIssues("Invalid context", issues))
+    this.issues = issues
+  }
+
+  toHandlerError() {
+    return {
+      code: this._tag as this["_tag"],
+      message: this.message,
+      issues: this.issues,
+    } as const
+  }
+}
+
+/**
+ * Defect returned by built handlers running in `strict` output validation mode
+ * when the resolver's value does not match the handler's output schema.
+ *
+ * This signals contract drift on the server side, so it maps to a 500 and
+ * deliberately does not expose the offending output value.
+ */
+export class OutputValidationError extends FramewerkError {
+  readonly _tag = "OutputValidationError" as const
+  static readonly errorCode = "OutputValidationError"
+  static readonly httpStatus: number = 500
+
+  /** Structured Zod issues with their paths */
+  readonly issues: ValidationIssue[]
+
+  static handlerError(status?: number) {
+    return {
+      code: "OutputValidationError",
+      status: status ?? this.httpStatus,
+      schema: z.object({
+        code: z.literal("OutputValidationError"),
+        message: z.string(),
+        issues: z.array(validationIssueSchema),
+      }),
+    } as const
+  }
+
+  /**
+   * Builds the error from a failed `safeParse` result's `error.issues`
+   */
+  static fromZodIssues(issues: ReadonlyArray<ZodIssueLike>) {
+    return new OutputValidationError(toValidationIssues(issues))
+  }
+
+  constructor(issues: ValidationIssue[]) {
+    super(summarizeIssues("Invalid output", issues))
+    this.issues = issues
+  }
+
+  toHandlerError() {
+    return {
+      code: this._tag as this["_tag"],
+      message: this.message,
+      issues: this.issues,
+    } as const
+  }
+}
+
+/**
+ * Error returned by built handlers when their deadline passes or their abort signal
+ * fires before the resolver settles.
+ *
+ * Added automatically to every handler's error union, so transports can map it to a
+ * 504 response.
+ */
+export class HandlerTimeoutError extends FramewerkError.tagged("HandlerTimeoutError") {
+  static readonly httpStatus = 504
+
+  constructor(operationId: string, reason: "deadline" | "aborted" = "deadline") {
+    super(
+      reason === "aborted"
+        ? `Handler ${operationId} was aborted`
+        : `Handler ${operationId} exceeded its deadline`
+    )
+  }
+}
+
+/**
+ * Defect returned by built handlers and service handlers when they throw or reject
+ * while defect capture is enabled (`configureFramewerk({ defects: { capture: true } })`).
+ *
+ * The thrown value is kept as `cause` and its stack is appended to this error's
+ * stack; like `OutputValidationError` it maps to a 500 without exposing the cause.
+ */
+export class UnexpectedError extends FramewerkError.tagged("UnexpectedError") {
+  static readonly httpStatus = 500
+
+  /** operationId of the handler that threw */
+  readonly operationId: string
+
+  constructor(operationId: string, cause: unknown) {
+    super(`Handler ${operationId} failed unexpectedly`, cause)
+    this.operationId = operationId
+    if (cause instanceof Error && cause.stack) {
+      this.stack = `${this.stack}\nCaused by: ${cause.stack}`
+    }
+  }
+}
+
 /**
- * Rate limit exceeded error using factory pattern
+ * Error returned by idempotent handlers when a request with the same idempotency key
+ * is still being processed.
  */
-export const RateLimitError = TaggedError("RateLimitError")
+export class IdempotencyConflictError extends FramewerkError.tagged("IdempotencyConflictError") {
+  static readonly httpStatus = 409
+
+  constructor(key: string) {
+    super(`A request with idempotency key ${key} is already in progress`)
+  }
+}
+
+/**
+ * Error returned by idempotent handlers when an idempotency key is reused with a
+ * different input.
+ */
+export class IdempotencyKeyMismatchError extends FramewerkError.tagged("IdempotencyKeyMismatchError") {
+  static readonly httpStatus = 422
+
+  constructor(key: string) {
+    super(`Idempotency key ${key} was already used with a different input`)
+  }
+}
+
+/**
+ * Error returned by handlers with `.rateLimit()` when the caller has used up its
+ * requests. Maps to a 429 response; `retryAfterMs` tells when the next request is
+ * allowed.
+ */
+export class RateLimitError extends FramewerkError.tagged("RateLimitError") {
+  static readonly httpStatus = 429
+
+  /** Milliseconds until the caller may retry, when known */
+  retryAfterMs?: number
+
+  static handlerError(status?: number) {
+    return {
+      code: "RateLimitError",
+      status: status ?? this.httpStatus,
+      schema: z.object({
+        code: z.literal("RateLimitError"),
+        message: z.string(),
+        retryAfterMs: z.number().optional(),
+      }),
+    } as const
+  }
+
+  /**
+   * Builds the error for a request rejected by `.rateLimit()`
+   */
+  static exceeded(operationId: string, retryAfterMs: number) {
+    const error = new RateLimitError(`Rate limit of ${operationId} exceeded; retry after ${retryAfterMs}ms`)
+    error.retryAfterMs = retryAfterMs
+    return error
+  }
+
+  toHandlerError() {
+    return {
+      code: this._tag as this["_tag"],
+      message: this.message,
+      retryAfterMs: this.retryAfterMs,
+    } as const
+  }
+}
+
+/**
+ * Error returned by deprecated handlers once their sunset date has passed. Maps to a
+ * 410 response.
+ */
+export class HandlerSunsetError extends FramewerkError.tagged("HandlerSunsetError") {
+  static readonly httpStatus = 410
+
+  constructor(operationId: string, sunset: string, replacement?: string) {
+    super(
+      replacement
+        ? `Handler ${operationId} was sunset on ${sunset}; use ${replacement} instead`
+        : `Handler ${operationId} was sunset on ${sunset}`
+    )
+  }
+}
+
+/**
+ * Error returned by services when a caller selects a version of a handler that is not
+ * registered.
+ */
+export class HandlerVersionNotFoundError extends FramewerkError.tagged("HandlerVersionNotFoundError") {
+  static readonly httpStatus = 404
+
+  constructor(operation: string, version: string) {
+    super(`Handler ${operation} has no version ${version}`)
+  }
+}
+
+/**
+ * Error returned by handlers and services with `.concurrency()` when every slot is
+ * taken and the queue is full, or a queued call waited longer than `queueTimeoutMs`.
+ */
+export class HandlerOverloadedError extends FramewerkError.tagged("HandlerOverloadedError") {
+  static readonly httpStatus = 503
+
+  constructor(target: string, waitedMs?: number) {
+    super(
+      waitedMs === undefined
+        ? `${target} is at its concurrency limit`
+        : `${target} had no free slot within ${waitedMs}ms`
+    )
+  }
+}
+
+/**
+ * Error returned by handlers with `.circuitBreaker()` while the circuit is open, without
+ * calling the failing dependency. `retryAfterMs` tells when the circuit half-opens.
+ */
+export class CircuitOpenError extends FramewerkError.tagged("CircuitOpenError") {
+  static readonly httpStatus = 503
+
+  /** Milliseconds until trial calls are let through again */
+  readonly retryAfterMs: number
+
+  static handlerError(status?: number) {
+    return {
+      code: "CircuitOpenError",
+      status: status ?? this.httpStatus,
+      schema: z.object({
+        code: z.literal("CircuitOpenError"),
+        message: z.string(),
+        retryAfterMs: z.number(),
+      }),
+    } as const
+  }
+
+  constructor(operationId: string, retryAfterMs: number) {
+    super(`Circuit of handler ${operationId} is open`)
+    this.retryAfterMs = retryAfterMs
+  }
+
+  toHandlerError() {
+    return {
+      code: this._tag as this["_tag"],
+      message: this.message,
+      retryAfterMs: this.retryAfterMs,
+    } as const
+  }
+}
+
+/**
+ * Error returned by handlers called with `options.dryRun` that were not marked with
+ * `.supportsDryRun()`, so that a preview never performs the real mutation.
+ */
+export class DryRunNotSupportedError extends FramewerkError.tagged("DryRunNotSupportedError") {
+  static readonly httpStatus = 400
+
+  constructor(operationId: string) {
+    super(`Handler ${operationId} does not support dry runs`)
+  }
+}
 
 // ============================================================================
 // Migration Examples & Type Demonstrations
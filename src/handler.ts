@@ -1,5 +1,80 @@
 import { z } from "zod"
-import { HandlerMethod } from "./types.ts"
+import { ok, err, type Result } from "neverthrow"
+import {
+  HandlerMethod,
+  type HandlerFunction,
+  type HandlerOptions,
+  type MergedContext,
+  type SyncHandlerFunction,
+  type SyncHandlerMethod,
+} from "./types.ts"
+import {
+  InputValidationError,
+  OutputValidationError,
+  HandlerTimeoutError,
+  IdempotencyConflictError,
+  IdempotencyKeyMismatchError,
+  HandlerSunsetError,
+  AuthenticationError,
+  AuthorizationError,
+  RateLimitError,
+  UnexpectedError,
+  ContextValidationError,
+  HandlerOverloadedError,
+  CircuitOpenError,
+  DryRunNotSupportedError,
+} from "./errors.ts"
+import { getFramewerkConfig, type OutputValidationConfig } from "./config.ts"
+import { composeMiddleware, type AnyMiddleware, type HandlerMiddleware } from "./middleware.ts"
+import { getCurrentInvocation, runInInvocation, runInRequest, runWithDeadline, runWithDryRun } from "./invocation.ts"
+import { authorize, isAuthEnforced } from "./auth.ts"
+import { captureDefects, captureDefectsSync } from "./defects.ts"
+import { Bulkhead, type ConcurrencyOptions } from "./concurrency.ts"
+import {
+  CircuitBreaker,
+  describeCircuitBreaker,
+  type CircuitBreakerMetadata,
+  type CircuitBreakerOptions,
+} from "./circuit-breaker.ts"
+import { runWithHooks, type LifecycleHooks } from "./hooks.ts"
+import { runInTransaction, type TransactionalOptions } from "./transactions.ts"
+import {
+  checkRateLimit,
+  describeRateLimit,
+  isKeyedByPrincipal,
+  type RateLimitMetadata,
+  type RateLimitOptions,
+} from "./rate-limit.ts"
+import { describeRetryPolicy, runWithRetry, type RetryPolicy, type RetryMetadata } from "./retry.ts"
+import { runIdempotent, type IdempotencyOptions } from "./idempotency.ts"
+import {
+  cachePartitionFor,
+  describeCacheOptions,
+  registerCachedHandler,
+  runCached,
+  type CacheOptions,
+  type CacheMetadata,
+} from "./cache.ts"
+import {
+  createBatchLoader,
+  describeBatchOptions,
+  type BatchHandlerFunction,
+  type BatchMetadata,
+  type BatchOptions,
+} from "./batching.ts"
+import {
+  runStream,
+  type StreamHandlerFunction,
+  type StreamHandlerMethod,
+  type HandlerChunkGenerator,
+} from "./streaming.ts"
+import {
+  checkSunset,
+  describeDeprecation,
+  warnDeprecation,
+  type DeprecationMetadata,
+  type DeprecationOptions,
+} from "./deprecation.ts"
 /**
  * @fileoverview Handler Builder Pattern for Type-Safe API Handler Definitions
  *
@@ -78,16 +153,63 @@ import { HandlerMethod } from "./types.ts"
  * 1. `defineHandler(operationId, description)` - Start the builder
  * 2. Optional configuration methods (any order):
  *    - `.tags(...tags)` - Add tags for grouping in documentation
- *    - `.auth(config)` - Specify authentication requirements
+ *    - `.version(version)` - Version the handler's contract (see `ServiceBuilder.addHandler`)
+ *    - `.deprecated(options)` - Announce the handler's retirement (see the deprecation module)
+ *    - `.auth(config)` - Specify authentication requirements (enforced by an `Authorizer`)
  *    - `.private(boolean)` - Mark handler as private (excluded from public API)
+ *    - `.supportsDryRun()` - Accept calls with `options.dryRun` (refused with `DryRunNotSupportedError` otherwise)
+ *    - `.context(zodSchema)` - Type and validate the request context (`ContextValidationError`)
  *    - `.errors(array)` - Define possible error responses
- * 3. Required definition methods (must be called before resolver):
+ *    - `.outputValidation(config)` - Override the global output validation settings
+ *    - `.use(middleware)` - Wrap the resolver with middleware (see `defineMiddleware`)
+ *    - `.hooks(hooks)` - Observe invocations with lifecycle hooks (see the hooks module)
+ *    - `.timeout(ms)` - Fail with `HandlerTimeoutError` when the resolver takes longer
+ *    - `.retry(policy)` - Retry the resolver when it returns one of the listed errors
+ *    - `.idempotent(options)` - Replay the first result for a repeated idempotency key
+ *    - `.transactional(options?)` - Run the resolver in a managed transaction (see the transactions module)
+ *    - `.rateLimit(options)` - Limit the calls per caller (see the rate-limit module)
+ *    - `.concurrency(options)` - Bound the concurrent invocations (see the concurrency module)
+ *    - `.circuitBreaker(options)` - Fail fast while a dependency keeps failing (see the circuit-breaker module)
+ *    - `.cache(options)` - Memoize successful results (see `invalidateCache`)
+ *    - `.calls(...handlers)` - Declare handlers the resolver invokes through `ctx.call`
+ * 3. Required definition methods (must be called before the handler function):
  *    - `.input(zodSchema)` - Define input validation schema
  *    - `.output(zodSchema)` - Define output validation schema
- *    - `.withDependencies<T>()` - Specify dependency types
- * 4. `.resolver(fn)` - Define the handler logic (only available after step 3)
+ *    - `.$dependsOn<T>()` - Specify dependency types (type-only, optional with `.handler<T>()`)
+ * 4. `.handler<Deps>(fn)` - Define the handler logic (only available after step 3), or
+ *    `.batch<Deps>(fn, options?)` to resolve the inputs of concurrent calls together
  * 5. `.build()` - Finalize and return the handler factory
  *
+ * Pure computational handlers can use `.handlerSync<Deps>(fn)` with a function returning
+ * a `Result` directly, and `.buildSync()` to get a `method` that validates input and
+ * output without going through a Promise. Such handlers also support `.build()`, and
+ * sync methods can be registered in services, which await them like any other handler.
+ * Async-only features (middleware, timeouts, retries, idempotency, caching, `.calls()`)
+ * are not available to `.buildSync()`.
+ *
+ * Streaming handlers declare a chunk schema with `.stream(zodSchema)`, yield chunks from
+ * an async generator passed to `.handlerStream<Deps>(fn)` and are built with
+ * `.buildStream()`. Their `method` returns an `AsyncIterable` of validated chunks whose
+ * `result` promise settles with the final `Result`; see the streaming module for
+ * cancellation and the features available to streams.
+ *
+ * `.withDependencies<T>()` and `.resolver((deps) => async (input, options, ctx) => ...)`
+ * are deprecated aliases of `.$dependsOn<T>()` and `.handler()`; both styles build
+ * identical handlers.
+ *
+ * ```typescript
+ * export const GetUser = defineHandler("users.getUser", "Retrieves a user by ID")
+ *   .input(GetUserInput)
+ *   .output(User)
+ *   .errors([UserNotFoundError] as const)
+ *   .handler<MyDependencies>(async (input, ctx) => {
+ *     // ctx.deps holds the dependencies, ctx.options the invocation options
+ *     const user = await ctx.deps.userRepo.findById(input.userId)
+ *     return user ? ok(user) : err(new UserNotFoundError(input.userId))
+ *   })
+ *   .build()
+ * ```
+ *
  * ## Dependency Injection Pattern:
  *
  * Handlers are defined as factories that accept dependencies. This allows:
@@ -106,6 +228,53 @@ import { HandlerMethod } from "./types.ts"
  * The resolver function returns `Result<Output, ErrorUnion>` from neverthrow, ensuring
  * all errors are handled explicitly.
  *
+ * Input that fails the input schema never reaches the resolver: the built `method`
+ * returns `err(InputValidationError)` carrying the structured Zod issues. This error is
+ * added automatically to every handler's error union, `errors` map and `ErrorOutput`.
+ *
+ * Resolver output can be checked against the output schema as well. The mode is set
+ * globally via `configureFramewerk({ outputValidation })` or per handler with
+ * `.outputValidation({...})`: `strict` returns `err(OutputValidationError)`, `warn`
+ * reports through an `onWarning` hook, and `off` (the default) skips the check.
+ *
+ * Exceptions thrown by the resolver, its dependencies or middleware propagate out of
+ * the built `method` unless defect capture is enabled with
+ * `configureFramewerk({ defects: { capture: true } })`; the method then returns
+ * `err(UnexpectedError)` and reports the defect through the `onDefect` hook.
+ *
+ * ## Deadlines and Cancellation:
+ *
+ * `HandlerOptions.deadline` (epoch ms) and `HandlerOptions.signal` bound an invocation
+ * from the outside, `.timeout(ms)` bounds it from the inside; the earliest limit wins.
+ * When it is reached the built `method` returns `err(HandlerTimeoutError)` and aborts
+ * the `signal` handed to the resolver via `options.signal`. Handlers called from within
+ * a resolver inherit the remaining deadline automatically.
+ *
+ * ## Calling Other Handlers:
+ *
+ * Handlers listed in `.calls(...)` can be invoked from the resolver with
+ * `ctx.call(handler, input, options?)`, which returns the callee's `Result`. Their errors
+ * are added to the caller's error union, `errors` map and `ErrorOutput` automatically, so
+ * downstream errors can be returned as-is without being listed in `.errors([...])`.
+ * Callees are instantiated with the caller's dependencies and receive the caller's context,
+ * so the caller's dependency type must include the dependencies of every callee.
+ *
+ * ```typescript
+ * const getUserWithSettings = defineHandler("getUserWithSettings", "...")
+ *   .input(GetUserInput)
+ *   .output(UserWithSettings)
+ *   .calls(GetUserProfile, GetUserSettings)
+ *   .withDependencies<UserDeps>()
+ *   .resolver(() => async (input, options, ctx) => {
+ *     const profile = await ctx.call(GetUserProfile, { userId: input.id })
+ *     if (profile.isErr()) {
+ *       return err(profile.error) // ProfileNotFoundError is part of the error union
+ *     }
+ *     // ...
+ *   })
+ *   .build()
+ * ```
+ *
  * ## Integration with HandlerContext:
  *
  * The resolver receives an optional `HandlerContext` as the second parameter, which is
@@ -166,7 +335,7 @@ interface TaggedErrorInterface {
 }
 
 // Error class constructor interface with static methods
-type ErrorClassConstructor = {
+export type ErrorClassConstructor = {
   new (...args: any[]): TaggedErrorInterface
   httpStatus?: number
   handlerError?: (status?: number) => { code: string; status: number; schema: z.ZodTypeAny }
@@ -174,10 +343,141 @@ type ErrorClassConstructor = {
 }
 
 // Type to extract union of error instances from array of error class constructors
-type ErrorUnionFromClasses<
+export type ErrorUnionFromClasses<
   T extends readonly ErrorClassConstructor[]
 > = T extends readonly [] ? never : InstanceType<T[number]>
 
+// Errors the built method can return on its own, independent of the resolver
+type BuiltinHandlerErrors =
+  | InputValidationError
+  | OutputValidationError
+  | HandlerTimeoutError
+  | UnexpectedError
+
+// Error classes every built handler declares in addition to its own
+const builtinErrorClasses: readonly ErrorClassConstructor[] = [
+  InputValidationError,
+  OutputValidationError,
+  HandlerTimeoutError,
+  UnexpectedError,
+]
+
+// Type-only key under which the builder context records `.supportsDryRun()`
+declare const dryRunSupport: unique symbol
+type DryRunSupport = { readonly [dryRunSupport]?: true }
+
+// DryRunNotSupportedError, unless the handler supports dry runs
+type DryRunErrors<TCtx> = typeof dryRunSupport extends keyof TCtx ? never : DryRunNotSupportedError
+
+// Full error union of a built handler's method
+type HandlerMethodErrors<
+  T extends readonly ErrorClassConstructor[],
+  TExtraErrors = never,
+  TCtx = object
+> = ErrorUnionFromClasses<T> | TExtraErrors | BuiltinHandlerErrors | DryRunErrors<TCtx>
+
+// Type-only key under which the builder context records the errors each `.hooks()`
+// registration accepts in `onError`
+declare const hookErrors: unique symbol
+type ObservedErrors<E> = { readonly [hookErrors]?: (error: E) => void }
+
+// Synchronous methods have no deadline, so they never time out
+const syncBuiltinErrorClasses: readonly ErrorClassConstructor[] = [
+  InputValidationError,
+  OutputValidationError,
+  UnexpectedError,
+]
+
+// Full error union of a synchronously built handler's method
+type SyncHandlerMethodErrors<
+  T extends readonly ErrorClassConstructor[],
+  TExtraErrors = never,
+  TCtx = object
+> =
+  | ErrorUnionFromClasses<T>
+  | TExtraErrors
+  | InputValidationError
+  | OutputValidationError
+  | UnexpectedError
+  | DryRunErrors<TCtx>
+
+// Pieces of a built handler factory's method signature
+export type HandlerFactoryInput<H> = H extends (
+  deps: never
+) => { readonly method: (input: infer I, ...rest: never[]) => unknown }
+  ? I
+  : never
+type HandlerFactoryResult<H> = H extends (
+  deps: never
+) => { readonly method: (...args: never[]) => Promise<infer R> }
+  ? R
+  : never
+export type HandlerFactoryOutput<H> = H extends unknown
+  ? HandlerFactoryResult<H> extends Result<infer O, unknown> ? O : never
+  : never
+export type HandlerFactoryErrors<H> = H extends unknown
+  ? HandlerFactoryResult<H> extends Result<unknown, infer E> ? E : never
+  : never
+
+// Dependencies of every factory in the union `H`, intersected
+type HandlerFactoryDeps<H> = (H extends (deps: infer D) => unknown ? (deps: D) => void : never) extends (
+  deps: infer I
+) => void
+  ? I
+  : never
+
+// Type-only key under which `ctx.call` records the dependencies its callees require
+declare const calleeDeps: unique symbol
+
+/**
+ * `ctx.call` for the handlers declared with `.calls()`
+ */
+export type HandlerCaller<H extends AnyHandler> = (<T extends H>(
+  handler: T,
+  input: HandlerFactoryInput<T>,
+  options?: HandlerOptions
+) => Promise<Result<HandlerFactoryOutput<T>, HandlerFactoryErrors<T>>>) & {
+  readonly [calleeDeps]?: HandlerFactoryDeps<H>
+}
+
+// Dependencies the handlers declared with `.calls()` require of their caller, which
+// instantiates them with its own
+type CalleeDeps<TCtx> = TCtx extends { call: { readonly [calleeDeps]?: infer D } } ? D : unknown
+
+// Handlers `.calls()` accepts: any until the dependency type is declared, then only
+// those whose dependencies it satisfies
+type CalleeHandler<TDeps> = unknown extends TDeps ? AnyHandler : AnyHandler & ((deps: TDeps) => unknown)
+
+// State after `.stream()`. It replaces the accumulated flags rather than extending them,
+// so the chunk schema type survives for `.handlerStream()` and `.buildStream()`
+type StreamBuilderState<C extends z.ZodTypeAny> = {
+  hasInput: true
+  hasOutput: true
+  hasDependencies: false
+  hasResolver: false
+  chunk: C
+}
+
+// Chunk type declared with `.stream()`
+type StreamChunk<TState> = TState extends { chunk: infer C extends z.ZodTypeAny } ? z.infer<C> : never
+
+// Errors of `.auth()` settings: AuthenticationError when authentication is required,
+// AuthorizationError as well when scopes are listed
+type AuthErrors<A extends HandlerAuth> =
+  | (A extends { required: true } ? AuthenticationError : never)
+  | (A extends { scopes: readonly string[] } ? AuthenticationError | AuthorizationError : never)
+
+// HandlerSunsetError when `.deprecated()` options set a sunset date
+type SunsetErrors<O extends DeprecationOptions> = O extends { sunset: Date | string }
+  ? HandlerSunsetError
+  : never
+
+// Runtime details of every built handler factory, used to resolve `.calls()` declarations
+const builtHandlers = new WeakMap<
+  AnyHandler,
+  { operationId: string; errors: readonly ErrorClassConstructor[] }
+>()
+
 // Track builder state with flags
 type BuilderState = {
   hasInput: boolean
@@ -186,22 +486,44 @@ type BuilderState = {
   hasResolver: boolean
 }
 
-// Builder class with progressive type refinement
+// Builder class with progressive type refinement.
+// TCtx collects context additions from middleware, TExtraErrors the errors contributed
+// by middleware, callees and opt-in features on top of the declared ones. Resolvers may
+// return any of them, e.g. to pass a callee's error through unchanged.
 export class HandlerBuilder<
   TState extends BuilderState,
   TInput extends z.ZodTypeAny,
   TOutput extends z.ZodTypeAny,
   TErrors extends readonly ErrorClassConstructor[],
-  TDeps
+  TDeps,
+  TCtx extends object = object,
+  TExtraErrors = never
 > {
   constructor(
     private config: {
       operationId: string
       description: string
       tags?: string[]
+      version?: string
+      deprecation?: DeprecationMetadata
       auth?: HandlerAuth
+      context?: z.ZodObject
       errors?: TErrors
       private?: boolean
+      supportsDryRun?: boolean
+      outputValidation?: Partial<OutputValidationConfig>
+      middleware?: AnyMiddleware[]
+      hooks?: LifecycleHooks<unknown, unknown, unknown>[]
+      timeoutMs?: number
+      retry?: RetryPolicy
+      idempotency?: IdempotencyOptions
+      transactional?: TransactionalOptions
+      rateLimit?: RateLimitOptions
+      concurrency?: ConcurrencyOptions
+      circuitBreaker?: CircuitBreakerOptions
+      cache?: CacheOptions
+      batch?: BatchMetadata
+      calls?: AnyHandler[]
       input?: TInput
       output?: TOutput
       dependencies?: TDeps
@@ -211,125 +533,628 @@ export class HandlerBuilder<
       ) => HandlerMethod<
         z.infer<TInput>,
         z.infer<TOutput>,
-        ErrorUnionFromClasses<TErrors>
+        ErrorUnionFromClasses<TErrors> | TExtraErrors,
+        TCtx
+      >
+      syncResolver?: (
+        deps: TDeps
+      ) => SyncHandlerMethod<
+        z.infer<TInput>,
+        z.infer<TOutput>,
+        ErrorUnionFromClasses<TErrors> | TExtraErrors,
+        TCtx
       >
+      chunk?: z.ZodTypeAny
+      streamResolver?: (
+        deps: TDeps
+      ) => (
+        input: z.infer<TInput>,
+        options: HandlerOptions | undefined,
+        ctx: MergedContext<TCtx>
+      ) => HandlerChunkGenerator<unknown, z.infer<TOutput>, ErrorUnionFromClasses<TErrors> | TExtraErrors>
     }
   ) {}
 
   input<I extends z.ZodTypeAny>(
     schema: I
-  ): HandlerBuilder<TState & { hasInput: true }, I, TOutput, TErrors, TDeps> {
+  ): HandlerBuilder<TState & { hasInput: true }, I, TOutput, TErrors, TDeps, TCtx, TExtraErrors> {
     return new HandlerBuilder<
       TState & { hasInput: true },
       I,
       TOutput,
       TErrors,
-      TDeps
+      TDeps,
+      TCtx,
+      TExtraErrors
     >({
       ...this.config,
       input: schema,
-    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState & { hasInput: true }, I, TOutput, TErrors, TDeps>>[0])
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState & { hasInput: true }, I, TOutput, TErrors, TDeps, TCtx, TExtraErrors>>[0])
   }
 
   output<O extends z.ZodTypeAny>(
     schema: O
-  ): HandlerBuilder<TState & { hasOutput: true }, TInput, O, TErrors, TDeps> {
+  ): HandlerBuilder<TState & { hasOutput: true }, TInput, O, TErrors, TDeps, TCtx, TExtraErrors> {
     return new HandlerBuilder<
       TState & { hasOutput: true },
       TInput,
       O,
       TErrors,
-      TDeps
+      TDeps,
+      TCtx,
+      TExtraErrors
     >({
       ...this.config,
       output: schema,
-    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState & { hasOutput: true }, TInput, O, TErrors, TDeps>>[0])
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState & { hasOutput: true }, TInput, O, TErrors, TDeps, TCtx, TExtraErrors>>[0])
   }
 
   errors<E extends readonly ErrorClassConstructor[]>(
     errorClasses: E
-  ): HandlerBuilder<TState, TInput, TOutput, E, TDeps> {
-    return new HandlerBuilder<TState, TInput, TOutput, E, TDeps>({
+  ): HandlerBuilder<TState, TInput, TOutput, E, TDeps, TCtx, TExtraErrors> {
+    return new HandlerBuilder<TState, TInput, TOutput, E, TDeps, TCtx, TExtraErrors>({
       ...this.config,
       errors: errorClasses,
-    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState, TInput, TOutput, E, TDeps>>[0])
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState, TInput, TOutput, E, TDeps, TCtx, TExtraErrors>>[0])
   }
 
-  auth(
-    auth: HandlerAuth
-  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps> {
-    return new HandlerBuilder({
+  // Enforced before the resolver runs when an authorizer is configured (see the auth module)
+  auth<A extends HandlerAuth>(
+    auth: A
+  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors | AuthErrors<A>> {
+    return new HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors | AuthErrors<A>>({
       ...this.config,
       auth,
-    })
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors | AuthErrors<A>>>[0])
   }
 
   private(
     isPrivate = true
-  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps> {
+  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors> {
     return new HandlerBuilder({
       ...this.config,
       private: isPrivate,
     })
   }
 
+  // The resolver previews its effects when `ctx.options.dryRun` is set. Removes
+  // DryRunNotSupportedError from the handler's own errors, not from those of its callees
+  supportsDryRun(): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx & DryRunSupport, TExtraErrors> {
+    return new HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx & DryRunSupport, TExtraErrors>({
+      ...this.config,
+      supportsDryRun: true,
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx & DryRunSupport, TExtraErrors>>[0])
+  }
+
   tags(
     ...tags: string[]
-  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps> {
+  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors> {
     return new HandlerBuilder({
       ...this.config,
       tags,
     })
   }
 
-  withDependencies<D>(): HandlerBuilder<
+  // Services can register several versions of an operation side by side
+  version(
+    version: string
+  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors> {
+    return new HandlerBuilder({
+      ...this.config,
+      version,
+    })
+  }
+
+  outputValidation(
+    outputValidation: Partial<OutputValidationConfig>
+  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors> {
+    return new HandlerBuilder({
+      ...this.config,
+      outputValidation,
+    })
+  }
+
+  timeout(
+    ms: number
+  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors> {
+    return new HandlerBuilder({
+      ...this.config,
+      timeoutMs: ms,
+    })
+  }
+
+  // Retries wrap the resolver only, so middleware runs once per invocation. Transactional
+  // handlers retry the whole transaction, middleware included
+  retry(
+    policy: RetryPolicy
+  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors> {
+    return new HandlerBuilder({
+      ...this.config,
+      retry: policy,
+    })
+  }
+
+  // A sunset date adds HandlerSunsetError to the error union
+  deprecated<O extends DeprecationOptions>(
+    options: O
+  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors | SunsetErrors<O>> {
+    return new HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors | SunsetErrors<O>>({
+      ...this.config,
+      deprecation: describeDeprecation(options),
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors | SunsetErrors<O>>>[0])
+  }
+
+  // Idempotency wraps middleware, resolver and output validation, so replays are exact
+  idempotent(
+    options: IdempotencyOptions = {}
+  ): HandlerBuilder<
+    TState,
+    TInput,
+    TOutput,
+    TErrors,
+    TDeps,
+    TCtx,
+    TExtraErrors | IdempotencyConflictError | IdempotencyKeyMismatchError
+  > {
+    return new HandlerBuilder<
+      TState,
+      TInput,
+      TOutput,
+      TErrors,
+      TDeps,
+      TCtx,
+      TExtraErrors | IdempotencyConflictError | IdempotencyKeyMismatchError
+    >({
+      ...this.config,
+      idempotency: options,
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors | IdempotencyConflictError | IdempotencyKeyMismatchError>>[0])
+  }
+
+  // Inside idempotency, so replayed results never open a transaction
+  transactional(
+    options: TransactionalOptions = {}
+  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors> {
+    return new HandlerBuilder({
+      ...this.config,
+      transactional: options,
+    })
+  }
+
+  // Checked after `.auth()` and before input validation
+  rateLimit(
+    options: RateLimitOptions
+  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors | RateLimitError> {
+    describeRateLimit(options)
+    return new HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors | RateLimitError>({
+      ...this.config,
+      rateLimit: options,
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors | RateLimitError>>[0])
+  }
+
+  // Bounds the concurrent invocations of every instance of the built handler
+  concurrency(
+    options: ConcurrencyOptions
+  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors | HandlerOverloadedError> {
+    return new HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors | HandlerOverloadedError>({
+      ...this.config,
+      concurrency: options,
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors | HandlerOverloadedError>>[0])
+  }
+
+  // Wraps the concurrency limit, so calls rejected while the circuit is open never queue
+  circuitBreaker(
+    options: CircuitBreakerOptions
+  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors | CircuitOpenError> {
+    return new HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors | CircuitOpenError>({
+      ...this.config,
+      circuitBreaker: options,
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors | CircuitOpenError>>[0])
+  }
+
+  // Caching wraps the resolver only, so middleware still runs on cache hits. Entries are
+  // kept per dependencies object unless `shared` is set
+  cache(
+    options: CacheOptions
+  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors> {
+    return new HandlerBuilder({
+      ...this.config,
+      cache: options,
+    })
+  }
+
+  // Callees are instantiated with this handler's dependencies when the factory is called
+  calls<H extends readonly CalleeHandler<TDeps>[]>(
+    ...handlers: H
+  ): HandlerBuilder<
+    TState,
+    TInput,
+    TOutput,
+    TErrors,
+    TDeps,
+    TCtx & { call: HandlerCaller<H[number]> },
+    TExtraErrors | HandlerFactoryErrors<H[number]>
+  > {
+    return new HandlerBuilder<
+      TState,
+      TInput,
+      TOutput,
+      TErrors,
+      TDeps,
+      TCtx & { call: HandlerCaller<H[number]> },
+      TExtraErrors | HandlerFactoryErrors<H[number]>
+    >({
+      ...this.config,
+      calls: [...(this.config.calls || []), ...handlers],
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx & { call: HandlerCaller<H[number]> }, TExtraErrors | HandlerFactoryErrors<H[number]>>>[0])
+  }
+
+  // The context is checked before input validation; the resolver's `ctx` is typed with
+  // the schema and receives its parsed values
+  context<S extends z.ZodObject>(
+    schema: S
+  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx & z.infer<S>, TExtraErrors | ContextValidationError> {
+    return new HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx & z.infer<S>, TExtraErrors | ContextValidationError>({
+      ...this.config,
+      context: schema,
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx & z.infer<S>, TExtraErrors | ContextValidationError>>[0])
+  }
+
+  // Middleware runs in registration order around the resolver, after input validation
+  use<A extends object, E extends readonly ErrorClassConstructor[]>(
+    middleware: HandlerMiddleware<A, E>
+  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx & A, TExtraErrors | ErrorUnionFromClasses<E>> {
+    return new HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx & A, TExtraErrors | ErrorUnionFromClasses<E>>({
+      ...this.config,
+      middleware: [...(this.config.middleware || []), middleware as AnyMiddleware],
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx & A, TExtraErrors | ErrorUnionFromClasses<E>>>[0])
+  }
+
+  // Typed with the output and errors declared so far; `.build()` checks that `onError`
+  // still accepts every error once the handler is complete. `onStart` receives the
+  // input before validation
+  hooks<E = HandlerMethodErrors<TErrors, TExtraErrors, TCtx>>(
+    hooks: LifecycleHooks<unknown, z.infer<TOutput>, E>
+  ): HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx & ObservedErrors<E>, TExtraErrors> {
+    return new HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx & ObservedErrors<E>, TExtraErrors>({
+      ...this.config,
+      hooks: [...(this.config.hooks || []), hooks as LifecycleHooks<unknown, unknown, unknown>],
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState, TInput, TOutput, TErrors, TDeps, TCtx & ObservedErrors<E>, TExtraErrors>>[0])
+  }
+
+  /**
+   * Declare the handler's dependency type. Type-only: the dependencies themselves are
+   * passed to the built handler factory.
+   */
+  $dependsOn<D extends CalleeDeps<TCtx>>(): HandlerBuilder<
     TState & { hasDependencies: true },
     TInput,
     TOutput,
     TErrors,
-    D
+    D,
+    TCtx,
+    TExtraErrors
+  > {
+    return this.withDependencies<D>()
+  }
+
+  /**
+   * @deprecated Use `.$dependsOn<T>()` instead
+   */
+  withDependencies<D extends CalleeDeps<TCtx>>(): HandlerBuilder<
+    TState & { hasDependencies: true },
+    TInput,
+    TOutput,
+    TErrors,
+    D,
+    TCtx,
+    TExtraErrors
   > {
     return new HandlerBuilder<
       TState & { hasDependencies: true },
       TInput,
       TOutput,
       TErrors,
-      D
+      D,
+      TCtx,
+      TExtraErrors
+    >({
+      ...this.config,
+      dependencies: {} as D,
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState & { hasDependencies: true }, TInput, TOutput, TErrors, D, TCtx, TExtraErrors>>[0])
+  }
+
+  /**
+   * Define the handler logic. Dependencies are available on `ctx.deps` and the invocation
+   * options on `ctx.options`; the dependency type can be given here or via `$dependsOn`.
+   * Only available after input and output are set.
+   */
+  handler<D extends CalleeDeps<TCtx> = TDeps & CalleeDeps<TCtx>>(
+    this: HandlerBuilder<
+      BuilderState & { hasInput: true; hasOutput: true },
+      TInput,
+      TOutput,
+      TErrors,
+      TDeps,
+      TCtx,
+      TExtraErrors
+    >,
+    handlerFn: HandlerFunction<
+      z.infer<TInput>,
+      z.infer<TOutput>,
+      ErrorUnionFromClasses<TErrors> | TExtraErrors,
+      D,
+      TCtx
+    >
+  ): HandlerBuilder<
+    TState & { hasDependencies: true; hasResolver: true },
+    TInput,
+    TOutput,
+    TErrors,
+    D,
+    TCtx,
+    TExtraErrors
+  > {
+    return new HandlerBuilder<
+      TState & { hasDependencies: true; hasResolver: true },
+      TInput,
+      TOutput,
+      TErrors,
+      D,
+      TCtx,
+      TExtraErrors
+    >({
+      ...this.config,
+      dependencies: {} as D,
+      resolver: (
+        deps: D
+      ): HandlerMethod<
+        z.infer<TInput>,
+        z.infer<TOutput>,
+        ErrorUnionFromClasses<TErrors> | TExtraErrors,
+        TCtx
+      > => (input, options, ctx) => handlerFn(input, { ...ctx, deps, options }),
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState & { hasDependencies: true; hasResolver: true }, TInput, TOutput, TErrors, D, TCtx, TExtraErrors>>[0])
+  }
+
+  /**
+   * Define the handler logic as a batch function receiving the validated inputs of the
+   * calls collected within a tick and returning one `Result` per input, in order. The
+   * built `method` still takes a single input (see the batching module).
+   */
+  batch<D extends CalleeDeps<TCtx> = TDeps & CalleeDeps<TCtx>>(
+    this: HandlerBuilder<
+      BuilderState & { hasInput: true; hasOutput: true },
+      TInput,
+      TOutput,
+      TErrors,
+      TDeps,
+      TCtx,
+      TExtraErrors
+    >,
+    batchFn: BatchHandlerFunction<
+      z.infer<TInput>,
+      z.infer<TOutput>,
+      ErrorUnionFromClasses<TErrors> | TExtraErrors,
+      D,
+      TCtx
+    >,
+    options: BatchOptions<z.infer<TInput>> = {}
+  ): HandlerBuilder<
+    TState & { hasDependencies: true; hasResolver: true },
+    TInput,
+    TOutput,
+    TErrors,
+    D,
+    TCtx,
+    TExtraErrors
+  > {
+    const { operationId } = this.config
+    return new HandlerBuilder<
+      TState & { hasDependencies: true; hasResolver: true },
+      TInput,
+      TOutput,
+      TErrors,
+      D,
+      TCtx,
+      TExtraErrors
     >({
       ...this.config,
+      batch: describeBatchOptions(options),
       dependencies: {} as D,
-    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState & { hasDependencies: true }, TInput, TOutput, TErrors, D>>[0])
+      resolver: (
+        deps: D
+      ): HandlerMethod<
+        z.infer<TInput>,
+        z.infer<TOutput>,
+        ErrorUnionFromClasses<TErrors> | TExtraErrors,
+        TCtx
+      > => {
+        // One loader per handler instance, so batches never mix dependencies
+        const load = createBatchLoader(operationId, options, (inputs, options, ctx) =>
+          batchFn(inputs, { ...(ctx as MergedContext<TCtx>), deps, options })
+        )
+        return (input, options, ctx) => load(input, options, ctx)
+      },
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState & { hasDependencies: true; hasResolver: true }, TInput, TOutput, TErrors, D, TCtx, TExtraErrors>>[0])
   }
 
-  // Resolver can only be called after input, output, and dependencies are set
+  /**
+   * Define the handler logic as a synchronous function returning a `Result`. Handlers
+   * defined this way can be built with `.buildSync()` as well as `.build()`.
+   */
+  handlerSync<D = TDeps>(
+    this: HandlerBuilder<
+      BuilderState & { hasInput: true; hasOutput: true },
+      TInput,
+      TOutput,
+      TErrors,
+      TDeps,
+      TCtx,
+      TExtraErrors
+    >,
+    handlerFn: SyncHandlerFunction<
+      z.infer<TInput>,
+      z.infer<TOutput>,
+      ErrorUnionFromClasses<TErrors> | TExtraErrors,
+      D,
+      TCtx
+    >
+  ): HandlerBuilder<
+    TState & { hasDependencies: true; hasResolver: true; isSync: true },
+    TInput,
+    TOutput,
+    TErrors,
+    D,
+    TCtx,
+    TExtraErrors
+  > {
+    const syncResolver = (
+      deps: D
+    ): SyncHandlerMethod<
+      z.infer<TInput>,
+      z.infer<TOutput>,
+      ErrorUnionFromClasses<TErrors> | TExtraErrors,
+      TCtx
+    > => (input, options, ctx) => handlerFn(input, { ...ctx, deps, options })
+
+    return new HandlerBuilder<
+      TState & { hasDependencies: true; hasResolver: true; isSync: true },
+      TInput,
+      TOutput,
+      TErrors,
+      D,
+      TCtx,
+      TExtraErrors
+    >({
+      ...this.config,
+      dependencies: {} as D,
+      syncResolver,
+      resolver: (
+        deps: D
+      ): HandlerMethod<
+        z.infer<TInput>,
+        z.infer<TOutput>,
+        ErrorUnionFromClasses<TErrors> | TExtraErrors,
+        TCtx
+      > => {
+        const method = syncResolver(deps)
+        return async (input, options, ctx) => method(input, options, ctx)
+      },
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<TState & { hasDependencies: true; hasResolver: true; isSync: true }, TInput, TOutput, TErrors, D, TCtx, TExtraErrors>>[0])
+  }
+
+  /**
+   * Declare the handler as streaming: it yields chunks matching `schema` before
+   * returning its final output. Define it with `.handlerStream()`.
+   */
+  stream<C extends z.ZodTypeAny>(
+    this: HandlerBuilder<
+      BuilderState & { hasInput: true; hasOutput: true },
+      TInput,
+      TOutput,
+      TErrors,
+      TDeps,
+      TCtx,
+      TExtraErrors
+    >,
+    schema: C
+  ): HandlerBuilder<StreamBuilderState<C>, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors> {
+    return new HandlerBuilder<StreamBuilderState<C>, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors>({
+      ...this.config,
+      chunk: schema,
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<StreamBuilderState<C>, TInput, TOutput, TErrors, TDeps, TCtx, TExtraErrors>>[0])
+  }
+
+  /**
+   * Define the logic of a streaming handler as an async generator that yields chunks
+   * and returns the final `Result`. Build it with `.buildStream()`.
+   */
+  handlerStream<D = TDeps>(
+    this: HandlerBuilder<
+      BuilderState & { hasInput: true; hasOutput: true; chunk: z.ZodTypeAny },
+      TInput,
+      TOutput,
+      TErrors,
+      TDeps,
+      TCtx,
+      TExtraErrors
+    >,
+    handlerFn: StreamHandlerFunction<
+      z.infer<TInput>,
+      StreamChunk<TState>,
+      z.infer<TOutput>,
+      ErrorUnionFromClasses<TErrors> | TExtraErrors,
+      D,
+      TCtx
+    >
+  ): HandlerBuilder<
+    Omit<TState, "hasDependencies"> & { hasDependencies: true; hasStreamResolver: true },
+    TInput,
+    TOutput,
+    TErrors,
+    D,
+    TCtx,
+    TExtraErrors
+  > {
+    return new HandlerBuilder<
+      Omit<TState, "hasDependencies"> & { hasDependencies: true; hasStreamResolver: true },
+      TInput,
+      TOutput,
+      TErrors,
+      D,
+      TCtx,
+      TExtraErrors
+    >({
+      ...this.config,
+      dependencies: {} as D,
+      streamResolver: (deps: D) => (
+        input: z.infer<TInput>,
+        options: HandlerOptions | undefined,
+        ctx: MergedContext<TCtx>
+      ) => handlerFn(input, { ...ctx, deps, options }),
+    } as unknown as ConstructorParameters<typeof HandlerBuilder<Omit<TState, "hasDependencies"> & { hasDependencies: true; hasStreamResolver: true }, TInput, TOutput, TErrors, D, TCtx, TExtraErrors>>[0])
+  }
+
+  /**
+   * Resolver can only be called after input, output, and dependencies are set
+   *
+   * @deprecated Use `.handler()` instead, which receives the dependencies on `ctx.deps`
+   */
   resolver(
     this: HandlerBuilder<
       BuilderState & { hasInput: true; hasOutput: true; hasDependencies: true },
       TInput,
       TOutput,
       TErrors,
-      TDeps
+      TDeps,
+      TCtx,
+      TExtraErrors
     >,
     resolverFn: (
       deps: TDeps
     ) => HandlerMethod<
       z.infer<TInput>,
       z.infer<TOutput>,
-      ErrorUnionFromClasses<TErrors>
+      ErrorUnionFromClasses<TErrors> | TExtraErrors,
+      TCtx
     >
   ): HandlerBuilder<
     TState & { hasResolver: true },
     TInput,
     TOutput,
     TErrors,
-    TDeps
+    TDeps,
+    TCtx,
+    TExtraErrors
   > {
     return new HandlerBuilder<
       TState & { hasResolver: true },
       TInput,
       TOutput,
       TErrors,
-      TDeps
+      TDeps,
+      TCtx,
+      TExtraErrors
     >({
       ...this.config,
       resolver: resolverFn,
@@ -348,11 +1173,33 @@ export class HandlerBuilder<
       TInput,
       TOutput,
       TErrors,
-      TDeps
+      TDeps,
+      // Hooks registered before errors were added do not compile
+      TCtx & ObservedErrors<HandlerMethodErrors<TErrors, TExtraErrors, TCtx>>,
+      TExtraErrors
     >
-  ): HandlerFactory<z.infer<TInput>, z.infer<TOutput>, ErrorUnionFromClasses<TErrors>, TDeps> {
+  ): HandlerFactory<z.infer<TInput>, z.infer<TOutput>, HandlerMethodErrors<TErrors, TExtraErrors, TCtx>, TDeps> {
     // At this point, TypeScript knows all required fields are set
-    const { input, output, resolver, errors } = this.config
+    const {
+      operationId,
+      input,
+      output,
+      resolver,
+      errors,
+      idempotency,
+      cache,
+      deprecation,
+      auth,
+      rateLimit,
+      context,
+      concurrency,
+      circuitBreaker,
+      supportsDryRun,
+      transactional,
+    } = this.config
+    const middleware = this.config.middleware || []
+    const hooks = this.config.hooks || []
+    const calls = this.config.calls || []
 
     if (!input || !output || !resolver) {
       throw new Error(
@@ -360,52 +1207,191 @@ export class HandlerBuilder<
       )
     }
 
-    // Convert error classes to handler error objects
-    const handlerErrors = (errors || []).map((ErrorClass) => {
-      // Create a temporary instance to get the _tag
-      const instance = new ErrorClass("")
-      return {
-        code: instance._tag,
-        status: ErrorClass.httpStatus || 500,
-        schema: ErrorClass.getSchema?.() || z.object({
-          code: z.literal(instance._tag),
-          message: z.string(),
-        }),
-      }
-    })
+    const { errorClasses: allErrors, handlerErrors, errorMap, ErrorOutput } = collectHandlerErrors([
+      ...(errors || []),
+      ...middleware.flatMap((mw) => mw.errors),
+      ...calls.flatMap((callee) => builtHandlers.get(callee)?.errors || []),
+      ...(idempotency ? [IdempotencyConflictError, IdempotencyKeyMismatchError] : []),
+      ...authErrorClasses(auth),
+      ...(rateLimit ? [RateLimitError] : []),
+      ...(context ? [ContextValidationError] : []),
+      ...(concurrency ? [HandlerOverloadedError] : []),
+      ...(circuitBreaker ? [CircuitOpenError] : []),
+      ...(deprecation?.sunset ? [HandlerSunsetError] : []),
+      ...builtinErrorClasses,
+      ...(supportsDryRun ? [] : [DryRunNotSupportedError]),
+    ])
 
-    const errorMap = handlerErrors.reduce((acc, e) => {
-      acc[e.code] = e
-      return acc
-    }, {} as Record<string, HandlerError<string, z.ZodTypeAny>>)
-
-    const errorSchemas = handlerErrors.map((e) => e.schema)
-    const ErrorOutput =
-      errorSchemas.length === 0
-        ? z.never()
-        : errorSchemas.length === 1
-        ? errorSchemas[0]!
-        : z.union(
-            errorSchemas as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]
-          )
+    const retry = this.config.retry
+      ? describeRetryPolicy(
+          this.config.retry,
+          this.config.retry.on.map((ErrorClass) => toHandlerErrorDefinition(ErrorClass).code)
+        )
+      : undefined
+
+    const cacheStore = () => cache?.store ?? getFramewerkConfig().cache.store
+    // Versions of an operation share its operationId, but never cached results or idempotency records
+    const storeScope = versionScope(operationId, this.config.version)
+    // Shared by every instance of the handler
+    const bulkhead = concurrency && new Bulkhead(`Handler ${operationId}`, concurrency)
+    const breaker =
+      circuitBreaker &&
+      new CircuitBreaker(
+        operationId,
+        describeCircuitBreaker(
+          circuitBreaker,
+          circuitBreaker.on.map((ErrorClass) => toHandlerErrorDefinition(ErrorClass).code)
+        ),
+        circuitBreaker.onStateChange
+      )
+    if (cache) {
+      registerCachedHandler(operationId, storeScope, cache, input, cacheStore)
+    }
 
     // Return factory function
-    return (deps: TDeps) => {
+    const factory = (deps: TDeps) => {
       const resolverWithDeps = resolver(deps)
       const inputSchema = input
       const outputSchema = output
+      const callees = new Map(calls.map((callee) => [callee, callee(deps)]))
+      const cachePartition = cache && cachePartitionFor(cache, deps)
 
-      const method: HandlerMethod<
+      const chain = composeMiddleware(middleware, (input, options, ctx) => {
+        const resolverCtx = calls.length === 0
+          ? ctx
+          : {
+              ...ctx,
+              call: (handler: AnyHandler, calleeInput: unknown, calleeOptions?: HandlerOptions) => {
+                const callee = callees.get(handler)
+                if (!callee) {
+                  throw new Error(
+                    `Handler "${operationId}" called a handler that was not declared with .calls()`
+                  )
+                }
+                return callee.method(calleeInput, calleeOptions, ctx)
+              },
+            }
+        const attempt = () => {
+          const scope = getCurrentInvocation()
+          if (!scope?.attempts) {
+            return resolverWithDeps(input as z.infer<TInput>, options, resolverCtx as MergedContext<TCtx>)
+          }
+          scope.attempts.count++
+          // Counted for lifecycle hooks; handlers called by the resolver count their own
+          return runInInvocation({ ...scope, attempts: undefined }, () =>
+            resolverWithDeps(input as z.infer<TInput>, options, resolverCtx as MergedContext<TCtx>)
+          )
+        }
+        // Transactional handlers retry around the transaction instead (see below)
+        const execute = () =>
+          retry && !transactional ? runWithRetry(retry, options, attempt, this.config.retry?.onRetry) : attempt()
+        // Dry runs are never cached, so that previews cannot be served as real results
+        return cache && cachePartition && !options?.dryRun
+          ? runCached(storeScope, cachePartition, { ...cache, store: cacheStore() }, input, ctx, execute)
+          : execute()
+      })
+
+      const invoke: HandlerMethod<
         z.infer<TInput>,
         z.infer<TOutput>,
-        ErrorUnionFromClasses<TErrors>
-      > = async (input, options, ctx) => {
-        const parsed = inputSchema.safeParse(input)
-        if (!parsed.success) {
-          throw new Error(`Invalid input: ${parsed.error.message}`)
-        }
-        return resolverWithDeps(parsed.data, options, ctx)
-      }
+        HandlerMethodErrors<TErrors, TExtraErrors, TCtx>
+      > = (input, options, ctx) =>
+        runWithDeadline(operationId, this.config.timeoutMs, options, async (options): Promise<
+          Result<z.infer<TOutput>, HandlerMethodErrors<TErrors, TExtraErrors, TCtx>>
+        > => {
+          const validContext = parseContext(context, ctx)
+          if (validContext.isErr()) {
+            // `.context()` adds ContextValidationError to TExtraErrors
+            return err(validContext.error as TExtraErrors)
+          }
+          const parsed = inputSchema.safeParse(input)
+          if (!parsed.success) {
+            return err(InputValidationError.fromZodIssues(parsed.error.issues))
+          }
+          const run = async (options: HandlerOptions | undefined) => {
+            const result = (await chain(parsed.data, options, validContext.value)) as Result<
+              z.infer<TOutput>,
+              ErrorUnionFromClasses<TErrors> | TExtraErrors
+            >
+            return validateOutput(result, outputSchema, operationId, {
+              ...getFramewerkConfig().outputValidation,
+              ...this.config.outputValidation,
+            })
+          }
+          const transact = () => runInTransaction(operationId, transactional ?? {}, options, run)
+          // Each attempt begins its own transaction, so failed attempts never commit their writes
+          const execute = () =>
+            !transactional
+              ? run(options)
+              : retry
+              ? runWithRetry(retry, options, transact, this.config.retry?.onRetry)
+              : transact()
+
+          if (!idempotency || options?.dryRun) {
+            return execute()
+          }
+          // .idempotent() adds the idempotency errors to TExtraErrors
+          return runIdempotent(
+            storeScope,
+            { ...getFramewerkConfig().idempotency, ...idempotency },
+            parsed.data,
+            options,
+            validContext.value,
+            execute
+          ) as Promise<Result<z.infer<TOutput>, HandlerMethodErrors<TErrors, TExtraErrors, TCtx>>>
+        })
+
+      const limited: typeof invoke = bulkhead
+        ? (input, options, ctx) =>
+            // `.concurrency()` adds HandlerOverloadedError to TExtraErrors
+            bulkhead.run(() => invoke(input, options, ctx), { operationId, options }) as ReturnType<typeof invoke>
+        : invoke
+      const broken: typeof invoke = breaker
+        ? (input, options, ctx) =>
+            // `.circuitBreaker()` adds CircuitOpenError to TExtraErrors
+            breaker.run(() => limited(input, options, ctx)) as ReturnType<typeof invoke>
+        : limited
+      const guarded: typeof invoke =
+        isAuthEnforced(auth) || rateLimit || deprecation || !supportsDryRun
+          ? async (input, options, ctx) => {
+              const rejection = await rejectInvocation(operationId, this.config, options, ctx)
+              // `.auth()`, `.rateLimit()` and `.deprecated({ sunset })` add these errors to TExtraErrors,
+              // handlers without `.supportsDryRun()` have DryRunNotSupportedError
+              return rejection ? err(rejection as TExtraErrors | DryRunErrors<TCtx>) : broken(input, options, ctx)
+            }
+          : broken
+      const observed: typeof invoke =
+        hooks.length > 0
+          ? (input, options, ctx) =>
+              runWithHooks(operationId, hooks, input, ctx, [], () => guarded(input, options, ctx)) as ReturnType<typeof invoke>
+          : guarded
+      const method: typeof invoke = (input, options, ctx) =>
+        captureDefects(operationId, () =>
+          runInRequest(ctx, () => runWithDryRun(options, (options) => observed(input, options, ctx)))
+        )
+
+      // Expose the metadata on the method too, for services that register `handler.method`
+      Object.defineProperty(method, "metadata", {
+        value: {
+          name: operationId,
+          description: this.config.description,
+          tags: this.config.tags,
+          version: this.config.version,
+          deprecated: this.config.deprecation,
+          requiredContext: this.config.context && requiredContextKeys(this.config.context),
+          rateLimit: this.config.rateLimit && describeRateLimit(this.config.rateLimit),
+          inputSchema,
+          outputSchema,
+          errorSchemas: handlerErrors.map((e) => e.schema),
+          idempotent: Boolean(idempotency),
+          transactional: Boolean(transactional),
+          supportsDryRun: Boolean(this.config.supportsDryRun),
+          cache: cache ? describeCacheOptions(cache) : undefined,
+          bulkhead,
+          breaker,
+        },
+        enumerable: false,
+      })
 
       const result = {
         Input: inputSchema,
@@ -416,8 +1402,23 @@ export class HandlerBuilder<
           operationId: this.config.operationId,
           description: this.config.description,
           tags: this.config.tags,
+          version: this.config.version,
+          deprecated: this.config.deprecation,
+          requiredContext: this.config.context && requiredContextKeys(this.config.context),
+          rateLimit: this.config.rateLimit && describeRateLimit(this.config.rateLimit),
           auth: this.config.auth,
           private: this.config.private,
+          middleware: middleware.map((mw) => mw.name),
+          timeoutMs: this.config.timeoutMs,
+          retry,
+          idempotent: Boolean(idempotency),
+          transactional: Boolean(transactional),
+          supportsDryRun: Boolean(this.config.supportsDryRun),
+          cache: cache ? describeCacheOptions(cache) : undefined,
+          concurrency,
+          circuitBreaker: breaker?.settings,
+          batch: this.config.batch,
+          calls: calls.map((callee) => builtHandlers.get(callee)?.operationId || "unknown"),
           errors: handlerErrors.map((e) => ({
             code: e.code,
             status: e.status,
@@ -437,9 +1438,525 @@ export class HandlerBuilder<
 
       return result
     }
+
+    builtHandlers.set(factory, { operationId, errors: allErrors })
+    return factory
+  }
+
+  /**
+   * Build a synchronous handler whose `method` returns the `Result` directly. Input and
+   * output are validated exactly like `build()` does. Only available after
+   * `.handlerSync()`; throws when async-only features are configured.
+   */
+  buildSync(
+    this: HandlerBuilder<
+      BuilderState & {
+        hasInput: true
+        hasOutput: true
+        hasDependencies: true
+        hasResolver: true
+        isSync: true
+      },
+      TInput,
+      TOutput,
+      TErrors,
+      TDeps,
+      TCtx,
+      TExtraErrors
+    >
+  ): SyncHandlerFactory<z.infer<TInput>, z.infer<TOutput>, SyncHandlerMethodErrors<TErrors, TExtraErrors, TCtx>, TDeps> {
+    const { operationId, input, output, syncResolver, errors, deprecation, context } = this.config
+
+    if (!input || !output || !syncResolver) {
+      throw new Error(
+        "Handler builder is in an invalid state - missing required fields"
+      )
+    }
+
+    rejectUnsupportedFeatures(this.config, "synchronously", [
+      isAuthEnforced(this.config.auth) && ".auth()",
+      this.config.rateLimit && ".rateLimit()",
+      this.config.concurrency && ".concurrency()",
+      this.config.circuitBreaker && ".circuitBreaker()",
+      this.config.middleware?.length && ".use()",
+      this.config.hooks?.length && ".hooks()",
+      this.config.timeoutMs !== undefined && ".timeout()",
+      this.config.retry && ".retry()",
+      this.config.idempotency && ".idempotent()",
+      this.config.transactional && ".transactional()",
+      this.config.cache && ".cache()",
+      this.config.calls?.length && ".calls()",
+    ])
+
+    const { handlerErrors, errorMap, ErrorOutput } = collectHandlerErrors([
+      ...(errors || []),
+      ...(context ? [ContextValidationError] : []),
+      ...(deprecation?.sunset ? [HandlerSunsetError] : []),
+      ...syncBuiltinErrorClasses,
+      ...(this.config.supportsDryRun ? [] : [DryRunNotSupportedError]),
+    ])
+
+    return (deps: TDeps) => {
+      const resolverWithDeps = syncResolver(deps)
+      const inputSchema = input
+      const outputSchema = output
+
+      const method: SyncHandlerMethod<
+        z.infer<TInput>,
+        z.infer<TOutput>,
+        SyncHandlerMethodErrors<TErrors, TExtraErrors, TCtx>
+      > = (input, options, ctx) =>
+        runWithDryRun(options, (options) =>
+          captureDefectsSync(operationId, (): Result<
+            z.infer<TOutput>,
+            SyncHandlerMethodErrors<TErrors, TExtraErrors, TCtx>
+          > => {
+            if (options?.dryRun && !this.config.supportsDryRun) {
+              // Handlers without `.supportsDryRun()` have DryRunNotSupportedError
+              return err(new DryRunNotSupportedError(operationId) as DryRunErrors<TCtx>)
+            }
+            if (deprecation) {
+              const sunset = checkSunset(operationId, deprecation)
+              if (sunset) {
+                // `.deprecated({ sunset })` adds HandlerSunsetError to TExtraErrors
+                return err(sunset as TExtraErrors)
+              }
+              warnDeprecation(operationId, deprecation, getFramewerkConfig().deprecation, options, ctx)
+            }
+            const validContext = parseContext(context, ctx)
+            if (validContext.isErr()) {
+              // `.context()` adds ContextValidationError to TExtraErrors
+              return err(validContext.error as TExtraErrors)
+            }
+            const parsed = inputSchema.safeParse(input)
+            if (!parsed.success) {
+              return err(InputValidationError.fromZodIssues(parsed.error.issues))
+            }
+            const result = resolverWithDeps(parsed.data, options, validContext.value as MergedContext<TCtx>)
+            return validateOutput(result, outputSchema, operationId, {
+              ...getFramewerkConfig().outputValidation,
+              ...this.config.outputValidation,
+            })
+          })
+        )
+
+      // Expose the metadata on the method too, for services that register `handler.method`
+      Object.defineProperty(method, "metadata", {
+        value: {
+          name: operationId,
+          description: this.config.description,
+          tags: this.config.tags,
+          version: this.config.version,
+          deprecated: this.config.deprecation,
+          requiredContext: this.config.context && requiredContextKeys(this.config.context),
+          inputSchema,
+          outputSchema,
+          errorSchemas: handlerErrors.map((e) => e.schema),
+          idempotent: false,
+          supportsDryRun: Boolean(this.config.supportsDryRun),
+          sync: true,
+        },
+        enumerable: false,
+      })
+
+      const result = {
+        Input: inputSchema,
+        Output: outputSchema,
+        ErrorOutput,
+        errors: errorMap,
+        metadata: {
+          operationId,
+          description: this.config.description,
+          tags: this.config.tags,
+          version: this.config.version,
+          deprecated: this.config.deprecation,
+          requiredContext: this.config.context && requiredContextKeys(this.config.context),
+          auth: this.config.auth,
+          private: this.config.private,
+          middleware: [] as string[],
+          idempotent: false,
+          supportsDryRun: Boolean(this.config.supportsDryRun),
+          calls: [] as string[],
+          sync: true,
+          errors: handlerErrors.map((e) => ({
+            code: e.code,
+            status: e.status,
+            schema: e.schema,
+          })),
+        },
+        method,
+      } as const
+
+      Object.defineProperty(result, HandlerMarker, {
+        value: true,
+        enumerable: false,
+        writable: false,
+        configurable: false,
+      })
+
+      return result
+    }
+  }
+
+  /**
+   * Build a streaming handler whose `method` returns a `HandlerStream`. Input, chunks and
+   * the final output are validated; `.timeout()` and the invocation's deadline and signal
+   * bound the whole stream. Only available after `.handlerStream()`; throws when
+   * middleware, retries, idempotency, caching or `.calls()` are configured.
+   */
+  buildStream(
+    this: HandlerBuilder<
+      BuilderState & {
+        hasInput: true
+        hasOutput: true
+        hasDependencies: true
+        hasStreamResolver: true
+        chunk: z.ZodTypeAny
+      },
+      TInput,
+      TOutput,
+      TErrors,
+      TDeps,
+      TCtx,
+      TExtraErrors
+    >
+  ): StreamHandlerFactory<
+    z.infer<TInput>,
+    StreamChunk<TState>,
+    z.infer<TOutput>,
+    HandlerMethodErrors<TErrors, TExtraErrors, TCtx>,
+    TDeps
+  > {
+    const { operationId, input, output, chunk, streamResolver, errors, timeoutMs, deprecation, auth, rateLimit, context } =
+      this.config
+
+    if (!input || !output || !chunk || !streamResolver) {
+      throw new Error(
+        "Handler builder is in an invalid state - missing required fields"
+      )
+    }
+
+    rejectUnsupportedFeatures(this.config, "as a stream", [
+      this.config.concurrency && ".concurrency()",
+      this.config.circuitBreaker && ".circuitBreaker()",
+      this.config.middleware?.length && ".use()",
+      this.config.hooks?.length && ".hooks()",
+      this.config.retry && ".retry()",
+      this.config.idempotency && ".idempotent()",
+      this.config.transactional && ".transactional()",
+      this.config.cache && ".cache()",
+      this.config.calls?.length && ".calls()",
+    ])
+
+    const { handlerErrors, errorMap, ErrorOutput } = collectHandlerErrors([
+      ...(errors || []),
+      ...authErrorClasses(auth),
+      ...(rateLimit ? [RateLimitError] : []),
+      ...(context ? [ContextValidationError] : []),
+      ...(deprecation?.sunset ? [HandlerSunsetError] : []),
+      ...builtinErrorClasses,
+      ...(this.config.supportsDryRun ? [] : [DryRunNotSupportedError]),
+    ])
+
+    return (deps: TDeps) => {
+      const resolverWithDeps = streamResolver(deps)
+      const inputSchema = input
+      const outputSchema = output
+
+      const method: StreamHandlerMethod<
+        z.infer<TInput>,
+        StreamChunk<TState>,
+        z.infer<TOutput>,
+        HandlerMethodErrors<TErrors, TExtraErrors, TCtx>
+      > = (input, options, ctx) =>
+        runInRequest(ctx, () => runWithDryRun(options, (options) => {
+          const config = this.config
+          // Rejected calls end the stream without chunks
+          const generate = async function* (options: HandlerOptions | undefined) {
+            const rejection = await rejectInvocation(operationId, config, options, ctx)
+            if (rejection) {
+              // `.auth()`, `.rateLimit()` and `.deprecated({ sunset })` add these errors to TExtraErrors
+              return err(rejection as TExtraErrors)
+            }
+            const validContext = parseContext(context, ctx)
+            if (validContext.isErr()) {
+              // `.context()` adds ContextValidationError to TExtraErrors
+              return err(validContext.error as TExtraErrors)
+            }
+            const parsed = inputSchema.safeParse(input)
+            if (!parsed.success) {
+              return err(InputValidationError.fromZodIssues(parsed.error.issues))
+            }
+            return yield* resolverWithDeps(parsed.data, options, validContext.value as MergedContext<TCtx>)
+          }
+          return runStream<
+            StreamChunk<TState>,
+            z.infer<TOutput>,
+            ErrorUnionFromClasses<TErrors> | TExtraErrors | InputValidationError | OutputValidationError
+          >(operationId, timeoutMs, options, chunk, generate, (result) =>
+            validateOutput(result, outputSchema, operationId, {
+              ...getFramewerkConfig().outputValidation,
+              ...this.config.outputValidation,
+            })
+          )
+        }))
+
+      // Expose the metadata on the method too, for services that register `handler.method`
+      Object.defineProperty(method, "metadata", {
+        value: {
+          name: operationId,
+          description: this.config.description,
+          tags: this.config.tags,
+          version: this.config.version,
+          deprecated: this.config.deprecation,
+          requiredContext: this.config.context && requiredContextKeys(this.config.context),
+          rateLimit: this.config.rateLimit && describeRateLimit(this.config.rateLimit),
+          inputSchema,
+          outputSchema,
+          errorSchemas: handlerErrors.map((e) => e.schema),
+          idempotent: false,
+          supportsDryRun: Boolean(this.config.supportsDryRun),
+          streaming: true,
+        },
+        enumerable: false,
+      })
+
+      const result = {
+        Input: inputSchema,
+        Output: outputSchema,
+        Chunk: chunk,
+        ErrorOutput,
+        errors: errorMap,
+        metadata: {
+          operationId,
+          description: this.config.description,
+          tags: this.config.tags,
+          version: this.config.version,
+          deprecated: this.config.deprecation,
+          requiredContext: this.config.context && requiredContextKeys(this.config.context),
+          rateLimit: this.config.rateLimit && describeRateLimit(this.config.rateLimit),
+          auth: this.config.auth,
+          private: this.config.private,
+          middleware: [] as string[],
+          timeoutMs,
+          idempotent: false,
+          supportsDryRun: Boolean(this.config.supportsDryRun),
+          calls: [] as string[],
+          streaming: true,
+          errors: handlerErrors.map((e) => ({
+            code: e.code,
+            status: e.status,
+            schema: e.schema,
+          })),
+        },
+        method,
+      } as const
+
+      Object.defineProperty(result, HandlerMarker, {
+        value: true,
+        enumerable: false,
+        writable: false,
+        configurable: false,
+      })
+
+      return result
+    }
   }
 }
 
+// Check the request context against the `.context()` schema. Parsed values replace the
+// raw ones, other keys (such as service dependencies) are kept
+function parseContext<C extends object>(
+  schema: z.ZodObject | undefined,
+  ctx: C
+): Result<C, ContextValidationError> {
+  if (!schema) {
+    return ok(ctx)
+  }
+  const parsed = schema.safeParse(ctx)
+  return parsed.success
+    ? ok({ ...ctx, ...parsed.data })
+    : err(ContextValidationError.fromZodIssues(parsed.error.issues))
+}
+
+// Keys of a `.context()` schema that must be present, i.e. do not accept `undefined`
+function requiredContextKeys(schema: z.ZodObject): string[] {
+  return Object.entries(schema.shape)
+    .filter(([, field]) => !field.safeParse(undefined).success)
+    .map(([key]) => key)
+}
+
+// Scope of a handler version in stores shared by every version of an operation
+function versionScope(operationId: string, version: string | undefined): string {
+  return version === undefined ? operationId : `${operationId}@${version}`
+}
+
+// Error classes added by `.auth()` settings
+function authErrorClasses(auth: HandlerAuth | undefined): ErrorClassConstructor[] {
+  if (!isAuthEnforced(auth)) {
+    return []
+  }
+  return auth?.scopes?.length ? [AuthenticationError, AuthorizationError] : [AuthenticationError]
+}
+
+// Checks run before input validation: `.auth()` against the service or global
+// authorizer, the sunset of deprecated handlers (before the rate limit, so calls of
+// retired handlers use up no tokens), then the rate limit. Deprecated handlers warn
+// only about the calls that pass every check.
+async function rejectInvocation(
+  operationId: string,
+  config: {
+    version?: string
+    auth?: HandlerAuth
+    rateLimit?: RateLimitOptions
+    deprecation?: DeprecationMetadata
+    supportsDryRun?: boolean
+  },
+  options: HandlerOptions | undefined,
+  ctx: MergedContext
+): Promise<
+  AuthenticationError | AuthorizationError | RateLimitError | HandlerSunsetError | DryRunNotSupportedError | undefined
+> {
+  if (options?.dryRun && !config.supportsDryRun) {
+    return new DryRunNotSupportedError(operationId)
+  }
+  const { auth, rateLimit } = config
+  const authorizer = getCurrentInvocation()?.authorizer ?? getFramewerkConfig().auth.authorizer
+  const enforcesAuth = authorizer !== undefined && auth !== undefined && isAuthEnforced(auth)
+  // Authenticated once, for both `.auth()` and a rate limit keyed by principal
+  const principal =
+    authorizer && (enforcesAuth || (rateLimit && isKeyedByPrincipal(rateLimit)))
+      ? await authorizer.authenticate(ctx, options)
+      : undefined
+  if (enforcesAuth) {
+    const denied = authorize(auth, principal)
+    if (denied) {
+      return denied
+    }
+  }
+  const sunset = config.deprecation && checkSunset(operationId, config.deprecation)
+  if (sunset) {
+    return sunset
+  }
+  if (rateLimit) {
+    if (!authorizer && isKeyedByPrincipal(rateLimit)) {
+      throw new Error(`Handler "${operationId}" limits calls per principal but no Authorizer is configured`)
+    }
+    const store = rateLimit.store ?? getFramewerkConfig().rateLimit.store
+    const scope = versionScope(operationId, config.version)
+    const limited = await checkRateLimit(operationId, scope, rateLimit, store, principal, options, ctx)
+    if (limited) {
+      return limited
+    }
+  }
+  if (config.deprecation) {
+    warnDeprecation(operationId, config.deprecation, getFramewerkConfig().deprecation, options, ctx)
+  }
+  return undefined
+}
+
+// Fail the build when features unavailable to an alternative build path are configured
+function rejectUnsupportedFeatures(
+  config: { operationId: string },
+  buildPath: string,
+  features: Array<string | number | false | undefined | object>
+) {
+  const used = features.filter((feature): feature is string => typeof feature === "string")
+  if (used.length > 0) {
+    throw new Error(
+      `Handler "${config.operationId}" cannot be built ${buildPath} because it uses ${used.join(", ")}`
+    )
+  }
+}
+
+// Deduplicate error classes and derive the error map and ErrorOutput schema from them
+function collectHandlerErrors(errorClasses: readonly ErrorClassConstructor[]) {
+  const unique: ErrorClassConstructor[] = []
+  for (const ErrorClass of errorClasses) {
+    if (!unique.includes(ErrorClass)) {
+      unique.push(ErrorClass)
+    }
+  }
+
+  // Convert error classes to handler error objects
+  const handlerErrors = unique.map(toHandlerErrorDefinition)
+
+  const errorMap = handlerErrors.reduce((acc, e) => {
+    acc[e.code] = e
+    return acc
+  }, {} as Record<string, HandlerError<string, z.ZodTypeAny>>)
+
+  const errorSchemas = handlerErrors.map((e) => e.schema)
+  const ErrorOutput =
+    errorSchemas.length === 0
+      ? z.never()
+      : errorSchemas.length === 1
+      ? errorSchemas[0]!
+      : z.union(
+          errorSchemas as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]
+        )
+
+  return { errorClasses: unique, handlerErrors, errorMap, ErrorOutput }
+}
+
+// Convert an error class to its handler error definition (code, status, schema)
+export function toHandlerErrorDefinition(
+  ErrorClass: ErrorClassConstructor
+): HandlerError<string, z.ZodTypeAny> {
+  const definition = ErrorClass.handlerError?.()
+  if (definition) {
+    return {
+      code: definition.code,
+      status: definition.status,
+      schema: definition.schema,
+    }
+  }
+
+  // Create a temporary instance to get the _tag
+  const instance = new ErrorClass("")
+  return {
+    code: instance._tag,
+    status: ErrorClass.httpStatus || 500,
+    schema: ErrorClass.getSchema?.() || z.object({
+      code: z.literal(instance._tag),
+      message: z.string(),
+    }),
+  }
+}
+
+// Check a resolver result against the output schema according to the validation mode
+function validateOutput<TOutput, TError>(
+  result: Result<TOutput, TError>,
+  schema: z.ZodTypeAny,
+  operationId: string,
+  settings: OutputValidationConfig
+): Result<TOutput, TError | OutputValidationError> {
+  if (result.isErr() || (settings.mode === "off" && !settings.stripUnknown)) {
+    return result
+  }
+
+  const parsed = schema.safeParse(result.value)
+  if (parsed.success) {
+    return settings.stripUnknown ? ok(parsed.data as TOutput) : result
+  }
+  if (settings.mode === "off") {
+    // Parsed for stripping only: invalid output passes unchecked
+    return result
+  }
+
+  if (settings.mode === "strict") {
+    return err(OutputValidationError.fromZodIssues(parsed.error.issues))
+  }
+
+  const warning = {
+    operationId,
+    issues: OutputValidationError.fromZodIssues(parsed.error.issues).issues,
+    output: result.value,
+  }
+  settings.onWarning?.(warning)
+  return result
+}
+
 // Entry point for creating handlers
 export function defineHandler(operationId: string, description: string) {
   return new HandlerBuilder<
@@ -459,6 +1976,45 @@ export function defineHandler(operationId: string, description: string) {
   })
 }
 
+// Metadata of a built handler, as found on `handler.metadata`
+export interface BuiltHandlerMetadata {
+  operationId: string
+  description: string
+  tags?: string[]
+  /** Contract version set with `.version()` */
+  version?: string
+  deprecated?: DeprecationMetadata
+  rateLimit?: RateLimitMetadata
+  /** Required keys of the `.context()` schema */
+  requiredContext?: string[]
+  auth?: HandlerAuth
+  private?: boolean
+  middleware: string[]
+  timeoutMs?: number
+  retry?: RetryMetadata
+  idempotent: boolean
+  /** Set with `.transactional()` */
+  transactional?: boolean
+  /** Set with `.supportsDryRun()` */
+  supportsDryRun: boolean
+  cache?: CacheMetadata
+  concurrency?: ConcurrencyOptions
+  circuitBreaker?: CircuitBreakerMetadata
+  /** Set on handlers defined with `.batch()` */
+  batch?: BatchMetadata
+  /** operationIds of the handlers declared with `.calls()` */
+  calls: string[]
+  /** Set on handlers built with `.buildSync()` */
+  sync?: boolean
+  /** Set on handlers built with `.buildStream()` */
+  streaming?: boolean
+  errors: Array<{
+    code: string
+    status: number
+    schema: z.ZodTypeAny
+  }>
+}
+
 // Handler result interface to hide internal marker from type signatures
 export interface HandlerFactory<TInput, TOutput, TErrors, TDeps> {
   (deps: TDeps): {
@@ -466,22 +2022,36 @@ export interface HandlerFactory<TInput, TOutput, TErrors, TDeps> {
     readonly Output: z.ZodTypeAny
     readonly ErrorOutput: z.ZodTypeAny
     readonly errors: Record<string, HandlerError<string, z.ZodTypeAny>>
-    readonly metadata: {
-      operationId: string
-      description: string
-      tags?: string[]
-      auth?: HandlerAuth
-      private?: boolean
-      errors: Array<{
-        code: string
-        status: number
-        schema: z.ZodTypeAny
-      }>
-    }
+    readonly metadata: BuiltHandlerMetadata
     readonly method: HandlerMethod<TInput, TOutput, TErrors>
   }
 }
 
+// Result of `.buildSync()`: like `HandlerFactory`, with a synchronous method
+export interface SyncHandlerFactory<TInput, TOutput, TErrors, TDeps> {
+  (deps: TDeps): {
+    readonly Input: z.ZodTypeAny
+    readonly Output: z.ZodTypeAny
+    readonly ErrorOutput: z.ZodTypeAny
+    readonly errors: Record<string, HandlerError<string, z.ZodTypeAny>>
+    readonly metadata: BuiltHandlerMetadata
+    readonly method: SyncHandlerMethod<TInput, TOutput, TErrors>
+  }
+}
+
+// Result of `.buildStream()`: like `HandlerFactory`, with the chunk schema and a streaming method
+export interface StreamHandlerFactory<TInput, TChunk, TOutput, TErrors, TDeps> {
+  (deps: TDeps): {
+    readonly Input: z.ZodTypeAny
+    readonly Output: z.ZodTypeAny
+    readonly Chunk: z.ZodTypeAny
+    readonly ErrorOutput: z.ZodTypeAny
+    readonly errors: Record<string, HandlerError<string, z.ZodTypeAny>>
+    readonly metadata: BuiltHandlerMetadata
+    readonly method: StreamHandlerMethod<TInput, TChunk, TOutput, TErrors>
+  }
+}
+
 // Type helpers
 export type AnyHandler = HandlerFactory<any, any, any, any>
 export type HandlerInput<H extends AnyHandler> = H extends (deps: unknown) => {
@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Deterministic Hashing of Handler Inputs
+ *
+ * Used wherever a handler needs a stable identity for a validated input, such as
+ * idempotency checks and cache keys. Object keys are sorted so that two structurally
+ * equal inputs always produce the same hash.
+ */
+
+import { createHash } from "node:crypto"
+
+/**
+ * JSON-stringify a value with object keys in sorted order
+ */
+export function stableStringify(value: unknown): string {
+  if (value === undefined) {
+    return "undefined"
+  }
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value)
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString())
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, entry]) => entry !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`
+}
+
+/**
+ * SHA-256 hex digest of a value's stable JSON representation
+ */
+export function hashValue(value: unknown): string {
+  return createHash("sha256").update(stableStringify(value)).digest("hex")
+}
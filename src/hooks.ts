@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Lifecycle Hooks
+ *
+ * `.hooks({ onStart, onSuccess, onError, onDefect, onFinally })` observes the invocations
+ * of a handler or service without wrapping them like middleware does:
+ *
+ * - `onStart(input, ctx)` runs before anything else, with the input as passed: it is not
+ *   validated yet, so handlers type it as `unknown`
+ * - `onSuccess(output, ctx, stats)` runs when the invocation returns `ok`
+ * - `onError(error, ctx, stats)` runs when it returns `err`; on handlers `error` is typed
+ *   as the union of the handler's errors, so a `switch` on `error._tag` is exhaustive
+ * - `onDefect(defect, ctx)` runs when it throws, before the defect is rethrown (or
+ *   turned into `UnexpectedError` when defect capture is on)
+ * - `onFinally(ctx, stats)` runs after any of the above
+ *
+ * `stats` holds the duration of the invocation and the number of attempts its resolver
+ * made, which is above 1 when `.retry()` retried it. On services it counts the attempts
+ * of the built handler the service handler invoked.
+ *
+ * Hooks are awaited in registration order. They only observe: an exception thrown by a
+ * hook never changes the outcome of the invocation, which may already be committed, and
+ * is reported through the `onHookError` hook configured with
+ * `configureFramewerk({ hooks })` instead (ignored when none is set). On handlers, register hooks after
+ * `.input()`, `.output()` and every method that adds errors (`.errors()`, `.auth()`,
+ * `.rateLimit()`, `.calls()`, `.use()`, ...) so that they see those types: `.build()`
+ * does not compile when `onError` misses errors added after the hooks. On services the
+ * hooks receive the name of the invoked handler as their last argument and observe the
+ * `Result`-returning handlers, including service middleware.
+ *
+ * @example
+ * ```typescript
+ * const transfer = defineHandler("payments.transfer", "Transfer money")
+ *   .input(TransferInput)
+ *   .output(Transfer)
+ *   .errors([InsufficientFundsError, AccountFrozenError])
+ *   .hooks({
+ *     onSuccess: (transfer, ctx, { durationMs }) => audit.record("transfer", transfer, durationMs),
+ *     onError: (error) => {
+ *       switch (error._tag) {
+ *         case "AccountFrozenError":
+ *           return alerts.raise(error)
+ *         // ...one case per error of the handler
+ *       }
+ *     },
+ *   })
+ *   .handler<PaymentDeps>(async (input, ctx) => ctx.deps.payments.transfer(input))
+ *   .build()
+ * ```
+ */
+
+import type { Result } from "neverthrow"
+import { getFramewerkConfig } from "./config.ts"
+import { getCurrentInvocation, runInInvocation } from "./invocation.ts"
+import type { HandlerContext, MergedContext } from "./types.ts"
+
+type HookName = keyof LifecycleHooks<never, never, never>
+
+/**
+ * Report passed to the `onHookError` hook when a lifecycle hook throws
+ */
+export interface HookFailure {
+  /** Handler whose invocation the hook observed */
+  operationId: string
+  hook: HookName
+  error: unknown
+}
+
+/**
+ * Outcome details passed to the hooks that run after an invocation
+ */
+export interface InvocationStats {
+  durationMs: number
+  /**
+   * Attempts made by the resolver, including retries; 0 when none ran because the
+   * invocation was rejected before it (e.g. by input validation) or served from the
+   * cache or idempotency store
+   */
+  attempts: number
+}
+
+/**
+ * Lifecycle hook settings, configurable globally
+ */
+export interface HooksConfig {
+  /** Called for every exception thrown by a lifecycle hook */
+  onHookError?: (failure: HookFailure) => void
+}
+
+/**
+ * Lifecycle hooks of `.hooks()`. `TExtra` holds the trailing arguments of service hooks.
+ */
+export interface LifecycleHooks<TInput, TOutput, TError, TCtx = HandlerContext, TExtra extends unknown[] = []> {
+  onStart?: (input: TInput, ctx: TCtx, ...extra: TExtra) => void | Promise<void>
+  onSuccess?: (output: TOutput, ctx: TCtx, stats: InvocationStats, ...extra: TExtra) => void | Promise<void>
+  onError?: (error: TError, ctx: TCtx, stats: InvocationStats, ...extra: TExtra) => void | Promise<void>
+  onDefect?: (defect: unknown, ctx: TCtx, ...extra: TExtra) => void | Promise<void>
+  onFinally?: (ctx: TCtx, stats: InvocationStats, ...extra: TExtra) => void | Promise<void>
+}
+
+/**
+ * Lifecycle hooks of a service, which receive the name of the invoked handler
+ */
+export type ServiceHooks<TDeps = object> = LifecycleHooks<
+  unknown,
+  unknown,
+  unknown,
+  MergedContext<TDeps>,
+  [handlerName: string]
+>
+
+/**
+ * Run `execute`, calling every registered hook at the matching stage
+ */
+export async function runWithHooks<TInput, TOutput, TError, TCtx, TExtra extends unknown[]>(
+  operationId: string,
+  hooks: ReadonlyArray<LifecycleHooks<TInput, TOutput, TError, TCtx, TExtra>>,
+  input: TInput,
+  ctx: TCtx,
+  extra: TExtra,
+  execute: () => Promise<Result<TOutput, TError>>
+): Promise<Result<TOutput, TError>> {
+  const startedAt = Date.now()
+  for (const hook of hooks) {
+    await callHook(operationId, "onStart", () => hook.onStart?.(input, ctx, ...extra))
+  }
+
+  // Shared with the hooks of a service and the handler it invokes
+  const scope = getCurrentInvocation()
+  const attempts = scope?.attempts ?? { count: 0 }
+  const stats = () => ({ durationMs: Date.now() - startedAt, attempts: attempts.count })
+  let result: Result<TOutput, TError>
+  try {
+    result = await (scope?.attempts ? execute() : runInInvocation({ ...scope, attempts }, execute))
+  } catch (defect) {
+    for (const hook of hooks) {
+      await callHook(operationId, "onDefect", () => hook.onDefect?.(defect, ctx, ...extra))
+    }
+    await finish(operationId, hooks, ctx, stats(), extra)
+    throw defect
+  }
+
+  const outcome = stats()
+  for (const hook of hooks) {
+    await (result.isOk()
+      ? callHook(operationId, "onSuccess", () => hook.onSuccess?.(result.value, ctx, outcome, ...extra))
+      : callHook(operationId, "onError", () => hook.onError?.(result.error, ctx, outcome, ...extra)))
+  }
+  await finish(operationId, hooks, ctx, stats(), extra)
+  return result
+}
+
+async function finish<TCtx, TExtra extends unknown[]>(
+  operationId: string,
+  hooks: ReadonlyArray<LifecycleHooks<never, never, never, TCtx, TExtra>>,
+  ctx: TCtx,
+  stats: InvocationStats,
+  extra: TExtra
+) {
+  for (const hook of hooks) {
+    await callHook(operationId, "onFinally", () => hook.onFinally?.(ctx, stats, ...extra))
+  }
+}
+
+// Run a single hook, reporting what it throws instead of failing the invocation
+async function callHook(operationId: string, hook: HookName, call: () => void | Promise<void>) {
+  try {
+    await call()
+  } catch (error) {
+    getFramewerkConfig().hooks.onHookError?.({ operationId, hook, error })
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Idempotency Keys for Mutating Handlers
+ *
+ * Handlers marked with `.idempotent()` remember the first `Result` (ok or err) produced
+ * for an idempotency key and replay it for every later request carrying the same key.
+ * This makes client retries of create/charge style operations safe.
+ *
+ * - The key is read from `options.idempotencyKey`, then `ctx.idempotencyKey`, unless a
+ *   custom `key` function is given. Requests without a key run normally.
+ * - Keys are scoped per handler (`operationId`, plus the version of versioned handlers)
+ *   and bound to a hash of the validated input: reusing a key with a different input returns `IdempotencyKeyMismatchError`.
+ * - A duplicate arriving while the first request is still running returns
+ *   `IdempotencyConflictError` instead of executing twice.
+ *
+ * Records live in a pluggable `IdempotencyStore`; `InMemoryIdempotencyStore` is used by
+ * default and suits tests and single-process deployments.
+ *
+ * @example
+ * ```typescript
+ * const chargeCard = defineHandler("payments.charge", "Charge a card")
+ *   .input(ChargeInput)
+ *   .output(ChargeOutput)
+ *   .errors([PaymentDeclinedError] as const)
+ *   .idempotent({ ttlMs: 60 * 60 * 1000 })
+ *   .withDependencies<PaymentDeps>()
+ *   .resolver((deps) => async (input) => deps.gateway.charge(input))
+ *   .build()
+ *
+ * await handler.method(input, { idempotencyKey: request.headers["idempotency-key"] }, ctx)
+ * ```
+ */
+
+import { ok, err, type Result } from "neverthrow"
+import { IdempotencyConflictError, IdempotencyKeyMismatchError } from "./errors.ts"
+import { hashValue } from "./hashing.ts"
+import type { HandlerContext, HandlerOptions } from "./types.ts"
+
+/**
+ * A handler result in storable form
+ */
+export type StoredResult =
+  | { ok: true; value: unknown }
+  | { ok: false; error: unknown }
+
+/**
+ * What the store knows about an idempotency key
+ */
+export interface IdempotencyRecord {
+  /** Hash of the validated input the key was first used with */
+  inputHash: string
+  /** `pending` while the first request is running */
+  state: "pending" | "completed"
+  /** The first result, once completed */
+  result?: StoredResult
+}
+
+/**
+ * Storage backend for idempotency records
+ */
+export interface IdempotencyStore {
+  /**
+   * Atomically claim a key for a new request. Resolves to `undefined` when the key was
+   * free and is now pending, or to the existing record otherwise.
+   */
+  claim(key: string, inputHash: string, ttlMs: number): Promise<IdempotencyRecord | undefined>
+  /** Store the first result for a claimed key */
+  complete(key: string, result: StoredResult, ttlMs: number): Promise<void>
+  /** Forget a claimed key, e.g. when the resolver threw */
+  release(key: string): Promise<void>
+}
+
+/**
+ * Handler-level idempotency settings
+ */
+export interface IdempotencyOptions {
+  /** Extract the idempotency key (default: `options.idempotencyKey ?? ctx.idempotencyKey`) */
+  key?: (options: HandlerOptions | undefined, ctx: HandlerContext) => string | undefined
+  /** Store to use instead of the globally configured one */
+  store?: IdempotencyStore
+  /** How long records are kept in milliseconds */
+  ttlMs?: number
+}
+
+/**
+ * In-memory idempotency store with per-record expiry
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, { record: IdempotencyRecord; expiresAt: number }>()
+
+  async claim(key: string, inputHash: string, ttlMs: number): Promise<IdempotencyRecord | undefined> {
+    const existing = this.records.get(key)
+    if (existing && existing.expiresAt > Date.now()) {
+      return existing.record
+    }
+
+    this.records.set(key, {
+      record: { inputHash, state: "pending" },
+      expiresAt: Date.now() + ttlMs,
+    })
+    return undefined
+  }
+
+  async complete(key: string, result: StoredResult, ttlMs: number): Promise<void> {
+    const existing = this.records.get(key)
+    if (!existing) {
+      return
+    }
+
+    this.records.set(key, {
+      record: { ...existing.record, state: "completed", result },
+      expiresAt: Date.now() + ttlMs,
+    })
+  }
+
+  async release(key: string): Promise<void> {
+    this.records.delete(key)
+  }
+
+  /** Remove all records */
+  clear(): void {
+    this.records.clear()
+  }
+}
+
+// Default key lookup: explicit option first, then the request context
+const defaultIdempotencyKey = (options: HandlerOptions | undefined, ctx: HandlerContext) => {
+  const key = options?.idempotencyKey ?? ctx.idempotencyKey
+  return typeof key === "string" && key.length > 0 ? key : undefined
+}
+
+/**
+ * Run a handler invocation under idempotency protection
+ *
+ * @param scope - The handler's operationId, suffixed with `@<version>` for versioned handlers
+ */
+export async function runIdempotent<T, E>(
+  scope: string,
+  settings: Required<Pick<IdempotencyOptions, "store" | "ttlMs">> & Pick<IdempotencyOptions, "key">,
+  input: unknown,
+  options: HandlerOptions | undefined,
+  ctx: HandlerContext,
+  execute: () => Promise<Result<T, E>>
+): Promise<Result<T, E | IdempotencyConflictError | IdempotencyKeyMismatchError>> {
+  const key = (settings.key ?? defaultIdempotencyKey)(options, ctx)
+  if (key === undefined) {
+    return execute()
+  }
+
+  const storeKey = `${scope}:${key}`
+  const inputHash = hashValue(input)
+  const existing = await settings.store.claim(storeKey, inputHash, settings.ttlMs)
+
+  if (existing) {
+    if (existing.inputHash !== inputHash) {
+      return err(new IdempotencyKeyMismatchError(key))
+    }
+    if (existing.state === "pending" || !existing.result) {
+      return err(new IdempotencyConflictError(key))
+    }
+    return existing.result.ok
+      ? ok(existing.result.value as T)
+      : err(existing.result.error as E)
+  }
+
+  let result: Result<T, E>
+  try {
+    result = await execute()
+  } catch (error) {
+    await settings.store.release(storeKey)
+    throw error
+  }
+
+  await settings.store.complete(
+    storeKey,
+    result.isOk() ? { ok: true, value: result.value } : { ok: false, error: result.error },
+    settings.ttlMs
+  )
+  return result
+}
@@ -12,6 +12,23 @@ export * from "./errors.ts"
 export * from "./contracts.ts"
 export * from "./introspection.ts"
 export * from "./testing.ts"
+export * from "./config.ts"
+export * from "./middleware.ts"
+export * from "./invocation.ts"
+export * from "./retry.ts"
+export * from "./idempotency.ts"
+export * from "./cache.ts"
+export * from "./templates.ts"
+export * from "./streaming.ts"
+export * from "./deprecation.ts"
+export * from "./auth.ts"
+export * from "./rate-limit.ts"
+export * from "./defects.ts"
+export * from "./batching.ts"
+export * from "./concurrency.ts"
+export * from "./circuit-breaker.ts"
+export * from "./hooks.ts"
+export * from "./transactions.ts"
 
 // Re-export common utilities for convenience
 export { ok, err, Result } from 'neverthrow'
@@ -20,6 +37,8 @@ export { z } from 'zod'
 // Import all the pieces for the namespace
 import { defineHandler } from "./handler.ts"
 import { defineService } from "./service.ts"
+import { defineMiddleware } from "./middleware.ts"
+import { defineHandlerTemplate, CrudHandlers } from "./templates.ts"
 import { 
   FramewerkError as BaseFramewerkError, 
   TaggedError as TaggedErrorFactory,
@@ -29,7 +48,8 @@ import {
 } from "./errors.ts"
 import { ServiceRegistry, ServiceInspector } from "./introspection.ts"
 import { createServiceContracts } from "./contracts.ts"
-import { createServiceTestHarness, ResultTestUtils, PerformanceTestUtils } from "./testing.ts"
+import { createServiceTestHarness, createHandlerTestHarness, ResultTestUtils, PerformanceTestUtils } from "./testing.ts"
+import { configureFramewerk, getFramewerkConfig, resetFramewerkConfig } from "./config.ts"
 
 /**
  * Main Framewerk namespace - provides organized access to all framework APIs
@@ -40,14 +60,15 @@ import { createServiceTestHarness, ResultTestUtils, PerformanceTestUtils } from
  * 
  * // Define services
  * const service = Framewerk.defineService("UserService")
- *   .withDependencies<UserDeps>()
+ *   .$dependsOn<UserDeps>()
  *   .addHandler("getUser", handler)
  *   .build()
  * 
  * // Define handlers
  * const handler = Framewerk.defineHandler("getUser", "Get user by ID")
  *   .input(schema)
- *   .resolver(async () => {})
+ *   .output(outputSchema)
+ *   .handler<UserDeps>(async (input, ctx) => ok(await ctx.deps.users.get(input.id)))
  *   .build()
  * 
  * // Create errors
@@ -59,6 +80,11 @@ export const Framewerk = {
   // Core builders
   defineService,
   defineHandler,
+  defineMiddleware,
+  defineHandlerTemplate,
+  
+  // Handler templates for common CRUD operations
+  CrudHandlers,
   
   // Error system with organized namespace
   Error: {
@@ -118,9 +144,15 @@ export const Framewerk = {
   // Contract system
   createContracts: createServiceContracts,
   
+  // Global runtime configuration
+  configure: configureFramewerk,
+  getConfig: getFramewerkConfig,
+  resetConfig: resetFramewerkConfig,
+  
   // Testing utilities
   Testing: {
     createHarness: createServiceTestHarness,
+    createHandlerHarness: createHandlerTestHarness,
     ResultTestUtils,
     PerformanceTestUtils,
   },
@@ -26,7 +26,10 @@
  * ```
  */
 
-import type { ServiceDefinition, ServiceMetadata } from "./service.ts"
+import type { HandlerDefinition, ServiceDefinition, ServiceMetadata } from "./service.ts"
+import type { CacheMetadata } from "./cache.ts"
+import type { ConcurrencyStats } from "./concurrency.ts"
+import type { CircuitBreakerStats } from "./circuit-breaker.ts"
 
 /**
  * Enhanced service metadata with comprehensive information
@@ -62,17 +65,31 @@ export interface HandlerMetadata {
   tags?: string[]
   /** Description/documentation */
   description?: string
+  /** Set for handlers built with `.buildStream()`, which return a stream of chunks */
+  streaming?: boolean
+  /** Contract version of handlers versioned with `.version()` */
+  version?: string
+  /** Context keys required by the handler's `.context()` schema */
+  requiredContext?: string[]
+  /** Whether the handler accepts `options.dryRun` (see `.supportsDryRun()`) */
+  supportsDryRun?: boolean
+  /** Live state of handlers built with `.circuitBreaker()` */
+  circuitBreaker?: CircuitBreakerStats
   /** Deprecation information */
   deprecated?: {
     since: string
     reason?: string
     replacement?: string
+    /** Date (ISO 8601) after which calls fail with `HandlerSunsetError` */
+    sunset?: string
   }
   /** Performance hints */
   performance?: {
     estimated_ms?: number
     cacheable?: boolean
     idempotent?: boolean
+    /** Cache settings of handlers built with `.cache()` */
+    cache?: CacheMetadata
   }
   /** Security information */
   security?: {
@@ -211,28 +228,78 @@ export class ServiceInspector<T extends ServiceDefinition<string, object>> {
     return {}
   }
 
+  /**
+   * Live in-flight and queued invocations of the concurrency-limited service and handlers
+   */
+  getConcurrencyStats(): ConcurrencyReport {
+    const baseMetadata = this.service.getMetadata()
+    const handlers: Record<string, ConcurrencyStats> = {}
+
+    const describe = (name: string, handler: unknown) => {
+      const bulkhead = (handler as HandlerDefinition | undefined)?.metadata?.bulkhead
+      if (bulkhead) {
+        handlers[name] = bulkhead.stats()
+      }
+    }
+    Object.entries(baseMetadata.handlers).forEach(([name, handler]) => {
+      const versions = baseMetadata.handlerVersions?.[name]
+      if (!versions) {
+        describe(name, handler)
+        return
+      }
+      Object.entries(versions).forEach(([version, versionHandler]) => {
+        describe(`${name}.v${version}`, versionHandler)
+      })
+    })
+
+    return { service: baseMetadata.concurrency, handlers }
+  }
+
   private extractHandlerMetadata(): Record<string, HandlerMetadata> {
     const baseMetadata = this.service.getMetadata()
     const handlerMetadata: Record<string, HandlerMetadata> = {}
     
     // Extract metadata from handler definitions
-    Object.entries(baseMetadata.handlers).forEach(([name]) => {
-      handlerMetadata[name] = {
-        name,
-        // These would be extracted from actual handler metadata if available
-        description: `Handler for ${name}`,
-        tags: [],
-        performance: {
-          estimated_ms: 100,
-          cacheable: false,
-          idempotent: name.startsWith("get")
-        }
+    Object.entries(baseMetadata.handlers).forEach(([name, handler]) => {
+      const versions = baseMetadata.handlerVersions?.[name]
+      if (!versions) {
+        handlerMetadata[name] = this.describeHandler(name, handler)
+        return
       }
+      // Each version is listed separately, e.g. `getUser.v2`
+      Object.entries(versions).forEach(([version, versionHandler]) => {
+        handlerMetadata[`${name}.v${version}`] = this.describeHandler(name, versionHandler)
+      })
     })
     
     return handlerMetadata
   }
 
+  private describeHandler(name: string, handler: unknown): HandlerMetadata {
+    // Built handlers carry their metadata on the method; plain functions get defaults
+    const metadata = (handler as HandlerDefinition | undefined)?.metadata
+    return {
+      name,
+      description: metadata?.description || `Handler for ${name}`,
+      tags: metadata?.tags || [],
+      streaming: metadata?.streaming,
+      version: metadata?.version,
+      requiredContext: metadata?.requiredContext,
+      supportsDryRun: metadata?.supportsDryRun,
+      circuitBreaker: metadata?.breaker?.stats(),
+      deprecated: metadata?.deprecated,
+      performance: {
+        estimated_ms: 100,
+        cacheable: Boolean(metadata?.cache),
+        idempotent: metadata?.idempotent ?? name.startsWith("get"),
+        cache: metadata?.cache
+      },
+      ...(metadata?.rateLimit
+        ? { security: { rateLimit: { requests: metadata.rateLimit.requests, windowMs: metadata.rateLimit.windowMs } } }
+        : {})
+    }
+  }
+
   private extractDependencyTypes(): string[] {
     // This would extract actual dependency type information
     // For now, return empty array
@@ -244,10 +311,13 @@ export class ServiceInspector<T extends ServiceDefinition<string, object>> {
     const paths: Record<string, unknown> = {}
     
     handlers.forEach(({ name, metadata }) => {
-      paths[`/${name}`] = {
+      // Versions of a handler are served side by side under a version prefix
+      const path = metadata.version ? `/v${metadata.version}/${metadata.name}` : `/${name}`
+      paths[path] = {
         post: {
           summary: metadata.description || `Execute ${name}`,
           tags: metadata.tags || [this.service.name],
+          ...(metadata.deprecated ? { deprecated: true } : {}),
           requestBody: {
             content: {
               "application/json": {
@@ -308,6 +378,16 @@ export interface PerformanceMetric {
   lastInvocation: Date
 }
 
+/**
+ * Live concurrency state of a service, see `ServiceInspector.getConcurrencyStats`
+ */
+export interface ConcurrencyReport {
+  /** The service-level limit set with `.concurrency()` on the service builder */
+  service?: ConcurrencyStats
+  /** Handlers built with `.concurrency()`, named like in `getEnhancedMetadata` */
+  handlers: Record<string, ConcurrencyStats>
+}
+
 /**
  * OpenAPI specification structure
  */
@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Invocation Scope for Built Handlers
+ *
+ * Built handlers run their resolver inside an invocation scope backed by
+ * `AsyncLocalStorage`. Handlers called from within a resolver read the enclosing scope,
+ * which lets per-request state flow into nested handler calls without threading it
+ * through every call site by hand.
+ *
+ * The scope carries the invocation's deadline and abort signal: a nested handler
+ * inherits the remaining time of its caller and can only shrink it further with its own
+ * `.timeout(ms)`. Services also place their authorizer in it, so that handlers called
+ * through a service, and the handlers those call, check `.auth()` against it.
+ * Transactional handlers place their transaction in it for nested handlers to join, and
+ * dry runs mark it so that every handler they call runs as a dry run too. It remembers
+ * the context object the request was made with, which identifies the request even where
+ * services, `.context()` and middleware derive new context objects from it, and counts
+ * the attempts of the resolver for lifecycle hooks. Finally,
+ * concurrency limits learn through it about resolvers still running after their
+ * invocation timed out, whose slots they keep until those settle.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks"
+import { err, type Result } from "neverthrow"
+import { HandlerTimeoutError } from "./errors.ts"
+import type { HandlerOptions } from "./types.ts"
+import type { Authorizer } from "./auth.ts"
+
+/**
+ * State shared by a handler invocation with the handlers it calls
+ */
+export interface InvocationScope {
+  /** Absolute deadline (epoch milliseconds) */
+  deadline?: number
+  /** Signal that fires when the invocation is aborted or its deadline passes */
+  signal?: AbortSignal
+  /** Authorizer of the service the invocation runs in */
+  authorizer?: Authorizer
+  /** Transaction of the enclosing `.transactional()` handler */
+  transaction?: unknown
+  /** Whether the invocation is a dry run, which handlers it calls inherit */
+  dryRun?: boolean
+  /**
+   * Context object of the outermost handler or service call of the request, shared by
+   * every call made without a context
+   */
+  request?: object
+  /**
+   * Attempts made by the resolver of the invocation, counted for its lifecycle hooks.
+   * Resolvers run without it, so the handlers they call count their own.
+   */
+  attempts?: { count: number }
+  /**
+   * Receives work that keeps running after the invocation returned, such as a resolver
+   * that outlived its deadline, so that the concurrency slots it occupies stay taken
+   * until the work settles
+   */
+  outlive?: (work: Promise<unknown>) => void
+}
+
+const invocationStorage = new AsyncLocalStorage<InvocationScope>()
+
+/**
+ * Read the scope of the handler invocation currently running, if any
+ */
+export function getCurrentInvocation(): InvocationScope | undefined {
+  return invocationStorage.getStore()
+}
+
+/**
+ * Run a function inside an invocation scope
+ */
+export function runInInvocation<T>(scope: InvocationScope, fn: () => T): T {
+  return invocationStorage.run(scope, fn)
+}
+
+// Request of the calls made without a context, which nothing tells apart
+const anonymousRequest = {}
+
+/**
+ * Run `fn` as part of the request made with `ctx`, unless it already runs inside one:
+ * handlers called by a handler belong to the request of their caller. Calls made
+ * without a context all belong to one anonymous request.
+ */
+export function runInRequest<T>(ctx: object | undefined, fn: () => T): T {
+  const scope = getCurrentInvocation()
+  if (scope?.request) {
+    return fn()
+  }
+  return runInInvocation({ ...scope, request: ctx ?? anonymousRequest }, fn)
+}
+
+/**
+ * Run a handler invocation as a dry run when `options.dryRun` is set or the enclosing
+ * invocation is one. Nested handlers cannot opt out of a dry run by omitting the option.
+ */
+export function runWithDryRun<T>(
+  options: HandlerOptions | undefined,
+  execute: (options: HandlerOptions | undefined) => T
+): T {
+  const scope = getCurrentInvocation()
+  if (!options?.dryRun && !scope?.dryRun) {
+    return execute(options)
+  }
+  return runInInvocation({ ...scope, dryRun: true }, () => execute({ ...options, dryRun: true }))
+}
+
+// Earliest of the given deadlines, ignoring missing ones
+const earliestDeadline = (...deadlines: Array<number | undefined>) => {
+  const defined = deadlines.filter((deadline): deadline is number => deadline !== undefined)
+  return defined.length > 0 ? Math.min(...defined) : undefined
+}
+
+/**
+ * Effective limits of a new invocation
+ */
+export interface InvocationLimits {
+  /** Earliest of `options.deadline`, the enclosing deadline and `now + timeoutMs` */
+  deadline?: number
+  /** `options.signal` and the enclosing invocation's signal, deduplicated */
+  signals: AbortSignal[]
+}
+
+/**
+ * Compute the deadline and upstream signals of a new invocation
+ */
+export function resolveInvocationLimits(
+  timeoutMs: number | undefined,
+  options: HandlerOptions | undefined
+): InvocationLimits {
+  const parent = getCurrentInvocation()
+  return {
+    deadline: earliestDeadline(
+      options?.deadline,
+      parent?.deadline,
+      timeoutMs !== undefined ? Date.now() + timeoutMs : undefined
+    ),
+    signals: [options?.signal, parent?.signal].filter(
+      (signal, index, all): signal is AbortSignal => signal !== undefined && all.indexOf(signal) === index
+    ),
+  }
+}
+
+/**
+ * The error an invocation fails with right away, when its limits are already exceeded
+ */
+export function exceededInvocationLimits(
+  operationId: string,
+  limits: InvocationLimits
+): HandlerTimeoutError | undefined {
+  if (limits.signals.some((signal) => signal.aborted)) {
+    return new HandlerTimeoutError(operationId, "aborted")
+  }
+  if (limits.deadline !== undefined && limits.deadline <= Date.now()) {
+    return new HandlerTimeoutError(operationId)
+  }
+  return undefined
+}
+
+/**
+ * Abort `controller` once the deadline passes or an upstream signal fires. The returned
+ * promise resolves with the corresponding `HandlerTimeoutError`; call `stop` when the
+ * invocation settles.
+ */
+export function watchInvocationLimits(
+  operationId: string,
+  limits: InvocationLimits,
+  controller: AbortController
+): { aborted: Promise<HandlerTimeoutError>; stop: () => void } {
+  const cleanup: Array<() => void> = []
+
+  const aborted = new Promise<HandlerTimeoutError>((resolve) => {
+    const abort = (reason: "deadline" | "aborted") => {
+      const error = new HandlerTimeoutError(operationId, reason)
+      controller.abort(error)
+      resolve(error)
+    }
+
+    if (limits.deadline !== undefined) {
+      const timer = setTimeout(() => abort("deadline"), limits.deadline - Date.now())
+      cleanup.push(() => clearTimeout(timer))
+    }
+    for (const signal of limits.signals) {
+      const onAbort = () => abort("aborted")
+      signal.addEventListener("abort", onAbort, { once: true })
+      cleanup.push(() => signal.removeEventListener("abort", onAbort))
+    }
+  })
+
+  return { aborted, stop: () => cleanup.forEach((fn) => fn()) }
+}
+
+/**
+ * Run a handler invocation under its effective deadline and abort signal.
+ *
+ * The effective deadline is the earliest of `options.deadline`, the enclosing
+ * invocation's deadline and `now + timeoutMs`. When it passes, or when `options.signal`
+ * or the enclosing signal fires, the invocation's signal is aborted and
+ * `err(HandlerTimeoutError)` is returned without waiting for the resolver.
+ */
+export async function runWithDeadline<T, E>(
+  operationId: string,
+  timeoutMs: number | undefined,
+  options: HandlerOptions | undefined,
+  execute: (options: HandlerOptions | undefined) => Promise<Result<T, E>>
+): Promise<Result<T, E | HandlerTimeoutError>> {
+  const limits = resolveInvocationLimits(timeoutMs, options)
+
+  if (limits.deadline === undefined && limits.signals.length === 0) {
+    return execute(options)
+  }
+  const exceeded = exceededInvocationLimits(operationId, limits)
+  if (exceeded) {
+    return err(exceeded)
+  }
+
+  const controller = new AbortController()
+  const watch = watchInvocationLimits(operationId, limits, controller)
+  const { deadline } = limits
+
+  const scope: InvocationScope = { ...getCurrentInvocation(), deadline, signal: controller.signal }
+  const work = runInInvocation(scope, () => execute({ ...options, deadline, signal: controller.signal }))
+  try {
+    return await Promise.race([work, watch.aborted.then((error) => err(error))])
+  } finally {
+    watch.stop()
+    if (controller.signal.aborted) {
+      // The resolver only learns about the abort through its signal and may keep running
+      scope.outlive?.(work)
+    }
+  }
+}
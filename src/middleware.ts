@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Handler Middleware
+ *
+ * Middleware wraps a handler's resolver to implement cross-cutting concerns such as
+ * authentication, logging or tenancy. Each middleware receives the validated input, the
+ * handler options, the current context and a `next` function that continues the chain.
+ *
+ * A middleware can:
+ * - short-circuit the chain by returning `err(...)` without calling `next`
+ * - enrich the context by passing typed additions to `next(...)`, which become visible
+ *   on `ctx` for later middleware and the resolver
+ * - declare its own error classes, which are added to the handler's error union,
+ *   `errors` map, `ErrorOutput` schema and metadata
+ *
+ * @example
+ * ```typescript
+ * const authMiddleware = defineMiddleware("auth")
+ *   .errors([AuthenticationError] as const)
+ *   .provides<{ user: { id: string } }>()
+ *   .handler(async (input, options, ctx, next) => {
+ *     const token = ctx.authorization
+ *     if (typeof token !== "string") {
+ *       return err(new AuthenticationError("Missing token"))
+ *     }
+ *     return next({ user: { id: token } })
+ *   })
+ *
+ * const getProfile = defineHandler("getProfile", "Get the current user's profile")
+ *   .input(z.object({}))
+ *   .output(ProfileSchema)
+ *   .use(authMiddleware)
+ *   .withDependencies<ProfileDeps>()
+ *   .resolver((deps) => async (input, options, ctx) => {
+ *     // ctx.user is typed thanks to authMiddleware
+ *     return ok(await deps.profiles.find(ctx.user.id))
+ *   })
+ *   .build()
+ * ```
+ */
+
+import type { Result } from "neverthrow"
+import type { HandlerOptions, MergedContext } from "./types.ts"
+import type { ErrorClassConstructor } from "./handler.ts"
+
+/**
+ * Continues the middleware chain. Context additions passed here are merged into `ctx`
+ * for the rest of the chain; they are required when the middleware declares any.
+ */
+export type MiddlewareNext<TAdditions extends object> = keyof TAdditions extends never
+  ? (additions?: TAdditions) => Promise<Result<unknown, unknown>>
+  : (additions: TAdditions) => Promise<Result<unknown, unknown>>
+
+/**
+ * Middleware implementation signature: (input, options, ctx, next) => Result
+ */
+export type MiddlewareFunction<TAdditions extends object> = (
+  input: unknown,
+  options: HandlerOptions | undefined,
+  ctx: MergedContext,
+  next: MiddlewareNext<TAdditions>
+) => Promise<Result<unknown, unknown>>
+
+/**
+ * A middleware definition that can be applied to handlers with `.use()`
+ */
+export interface HandlerMiddleware<
+  TAdditions extends object = object,
+  TErrors extends readonly ErrorClassConstructor[] = readonly ErrorClassConstructor[]
+> {
+  readonly name: string
+  readonly errors: TErrors
+  readonly run: MiddlewareFunction<TAdditions>
+  /** Phantom field carrying the context additions type */
+  readonly __provides?: TAdditions
+}
+
+/**
+ * Any middleware, regardless of its context additions and errors
+ */
+export type AnyMiddleware = HandlerMiddleware<object, readonly ErrorClassConstructor[]>
+
+/**
+ * Builder for middleware definitions
+ */
+export class MiddlewareBuilder<
+  TAdditions extends object,
+  TErrors extends readonly ErrorClassConstructor[]
+> {
+  constructor(
+    private config: {
+      name: string
+      errors?: TErrors
+    }
+  ) {}
+
+  /**
+   * Declare the error classes this middleware can return
+   */
+  errors<E extends readonly ErrorClassConstructor[]>(
+    errorClasses: E
+  ): MiddlewareBuilder<TAdditions, E> {
+    return new MiddlewareBuilder<TAdditions, E>({
+      ...this.config,
+      errors: errorClasses,
+    })
+  }
+
+  /**
+   * Declare the context additions this middleware passes to `next` (type-only)
+   */
+  provides<A extends object>(): MiddlewareBuilder<TAdditions & A, TErrors> {
+    return new MiddlewareBuilder<TAdditions & A, TErrors>(this.config)
+  }
+
+  /**
+   * Define the middleware logic and finish the definition
+   */
+  handler(fn: MiddlewareFunction<TAdditions>): HandlerMiddleware<TAdditions, TErrors> {
+    return {
+      name: this.config.name,
+      errors: (this.config.errors || []) as unknown as TErrors,
+      run: fn,
+    }
+  }
+}
+
+/**
+ * Entry point for creating middleware
+ */
+export function defineMiddleware(name: string) {
+  return new MiddlewareBuilder<object, readonly []>({ name })
+}
+
+/**
+ * Untyped step of a composed middleware chain
+ */
+export type MiddlewareChainStep = (
+  input: unknown,
+  options: HandlerOptions | undefined,
+  ctx: MergedContext
+) => Promise<Result<unknown, unknown>>
+
+/**
+ * Compose middleware around a terminal step. The first middleware is the outermost.
+ */
+export function composeMiddleware(
+  middleware: readonly AnyMiddleware[],
+  terminal: MiddlewareChainStep
+): MiddlewareChainStep {
+  return middleware.reduceRight<MiddlewareChainStep>(
+    (next, mw) => (input, options, ctx) =>
+      mw.run(input, options, ctx, ((additions?: object) =>
+        next(input, options, additions ? { ...ctx, ...additions } : ctx)) as MiddlewareNext<object>),
+    terminal
+  )
+}
@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Rate Limiting for Handlers
+ *
+ * Handlers configured with `.rateLimit({ requests, windowMs })` allow each caller
+ * `requests` calls per `windowMs` and return `err(RateLimitError)` beyond that, with
+ * `retryAfterMs` telling when the next call will be accepted. Limits are checked after
+ * `.auth()` and before input validation.
+ *
+ * Callers are told apart by the `key` option, which has no default:
+ *
+ * - `"principal"`: the id of the principal returned by the authorizer (see the auth
+ *   module); calls fail with an exception when no authorizer is configured, rather than
+ *   putting every caller in one limit
+ * - `"tenant"`: `ctx.tenantId`
+ * - `"ip"`: `ctx.ip`
+ * - `"global"`: one limit shared by every caller
+ * - a function `(options, ctx) => string | undefined` for anything else
+ *
+ * Callers without a key share the `"anonymous"` limit. Every version of an operation
+ * (see `.version()`) has limits of its own.
+ *
+ * Limits are tracked in a pluggable `RateLimitStore`. `InMemoryTokenBucketStore` is used
+ * by default: each key gets a bucket of `requests` tokens refilled continuously over
+ * `windowMs`, which allows short bursts without exceeding the average rate. It suits
+ * tests and single-process deployments.
+ *
+ * @example
+ * ```typescript
+ * const sendMessage = defineHandler("messages.send", "Send a message")
+ *   .input(SendMessageInput)
+ *   .output(Message)
+ *   .rateLimit({ requests: 10, windowMs: 60_000, key: "tenant" })
+ *   .handler<MessageDeps>(async (input, ctx) => ok(await ctx.deps.messages.send(input)))
+ *   .build()
+ * ```
+ */
+
+import { RateLimitError } from "./errors.ts"
+import type { Principal } from "./auth.ts"
+import type { HandlerContext, HandlerOptions } from "./types.ts"
+
+/**
+ * Size of a rate limit: `requests` per `windowMs`
+ */
+export interface RateLimit {
+  requests: number
+  windowMs: number
+}
+
+/**
+ * Outcome of taking a request from a limit
+ */
+export interface RateLimitDecision {
+  allowed: boolean
+  /** Requests left right now */
+  remaining: number
+  /** Milliseconds until the next request is allowed, `0` when allowed */
+  retryAfterMs: number
+}
+
+/**
+ * Storage backend for rate limits
+ */
+export interface RateLimitStore {
+  /** Take one request from the limit identified by `key` */
+  consume(key: string, limit: RateLimit): Promise<RateLimitDecision>
+}
+
+/**
+ * Built-in ways to identify the caller a limit applies to
+ */
+export type RateLimitKey = "principal" | "tenant" | "ip" | "global"
+
+/**
+ * Handler-level rate limit settings
+ */
+export interface RateLimitOptions extends RateLimit {
+  /** Identify the caller */
+  key: RateLimitKey | ((options: HandlerOptions | undefined, ctx: HandlerContext) => string | undefined)
+  /** Store to use instead of the globally configured one */
+  store?: RateLimitStore
+}
+
+/**
+ * Rate limit settings exposed in handler metadata
+ */
+export interface RateLimitMetadata extends RateLimit {
+  key: RateLimitKey | "custom"
+}
+
+/**
+ * Describe rate limit options for metadata
+ */
+export function describeRateLimit(options: RateLimitOptions): RateLimitMetadata {
+  if (!(options.requests > 0) || !(options.windowMs > 0)) {
+    throw new Error("Rate limits need a positive number of requests and window")
+  }
+  if (options.key === undefined) {
+    throw new Error("Rate limits need a key identifying the caller")
+  }
+  return {
+    requests: options.requests,
+    windowMs: options.windowMs,
+    key: typeof options.key === "function" ? "custom" : options.key,
+  }
+}
+
+/**
+ * Whether a limit is keyed by the authenticated principal
+ */
+export function isKeyedByPrincipal(options: RateLimitOptions): boolean {
+  return options.key === "principal"
+}
+
+// Identify the caller a limit applies to
+function callerKey(
+  options: RateLimitOptions,
+  principal: Principal | undefined,
+  invocationOptions: HandlerOptions | undefined,
+  ctx: HandlerContext
+): string | undefined {
+  const key = options.key
+  if (typeof key === "function") {
+    return key(invocationOptions, ctx)
+  }
+  switch (key) {
+    case "principal":
+      return principal?.id
+    case "tenant":
+      return typeof ctx.tenantId === "string" ? ctx.tenantId : undefined
+    case "ip":
+      return typeof ctx.ip === "string" ? ctx.ip : undefined
+    case "global":
+      return "*"
+  }
+}
+
+/**
+ * Take one request from the caller's limit. `scope` identifies the handler version the
+ * limit belongs to, and `principal` is the authenticated caller, used by limits keyed by
+ * `"principal"`. Returns the `RateLimitError` to fail with when the limit is used up.
+ */
+export async function checkRateLimit(
+  operationId: string,
+  scope: string,
+  options: RateLimitOptions,
+  store: RateLimitStore,
+  principal: Principal | undefined,
+  invocationOptions: HandlerOptions | undefined,
+  ctx: HandlerContext
+): Promise<RateLimitError | undefined> {
+  const caller = callerKey(options, principal, invocationOptions, ctx) ?? "anonymous"
+  const decision = await store.consume(`${scope}:${caller}`, options)
+  return decision.allowed ? undefined : RateLimitError.exceeded(operationId, decision.retryAfterMs)
+}
+
+/**
+ * In-memory token bucket store. Buckets that have refilled completely are dropped as
+ * new requests come in, so memory use follows the number of recently active callers.
+ */
+export class InMemoryTokenBucketStore implements RateLimitStore {
+  private buckets = new Map<string, { tokens: number; updatedAt: number; fullAt: number }>()
+
+  async consume(key: string, limit: RateLimit): Promise<RateLimitDecision> {
+    const now = Date.now()
+    this.evictFullBuckets(now)
+
+    const refillPerMs = limit.requests / limit.windowMs
+    const bucket = this.buckets.get(key)
+    const available = bucket
+      ? Math.min(limit.requests, bucket.tokens + (now - bucket.updatedAt) * refillPerMs)
+      : limit.requests
+    const allowed = available >= 1
+    const tokens = allowed ? available - 1 : available
+
+    this.buckets.set(key, {
+      tokens,
+      updatedAt: now,
+      fullAt: now + (limit.requests - tokens) / refillPerMs,
+    })
+
+    return allowed
+      ? { allowed, remaining: Math.floor(tokens), retryAfterMs: 0 }
+      : { allowed, remaining: 0, retryAfterMs: Math.ceil((1 - tokens) / refillPerMs) }
+  }
+
+  /** Number of tracked buckets */
+  get size(): number {
+    return this.buckets.size
+  }
+
+  /** Remove all buckets */
+  clear(): void {
+    this.buckets.clear()
+  }
+
+  // Drop every full bucket. Limits of different sizes refill at different rates, so a
+  // bucket still refilling can precede full ones
+  private evictFullBuckets(now: number) {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.fullAt <= now) {
+        this.buckets.delete(key)
+      }
+    }
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Declarative Retry Policies
+ *
+ * Handlers declare transient failures by error class, and the built handler retries the
+ * resolver when it returns one of them. Retries never outlive the invocation: a retry is
+ * skipped when its delay would cross the handler's deadline or the invocation has been
+ * aborted, and the last error is returned instead.
+ *
+ * Handler metadata records the policy only; `onRetry` reports the retries an invocation
+ * actually makes, and lifecycle hooks receive the number of attempts it took in their
+ * `stats`, e.g. to count them in metrics.
+ *
+ * @example
+ * ```typescript
+ * const getRates = defineHandler("getRates", "Fetch exchange rates")
+ *   .input(RatesInput)
+ *   .output(RatesOutput)
+ *   .errors([NetworkTimeoutError, DatabaseError] as const)
+ *   .retry({ on: [NetworkTimeoutError], attempts: 3, backoff: "exponential", delayMs: 50, jitter: true })
+ *   .withDependencies<RatesDeps>()
+ *   .resolver((deps) => async (input) => deps.ratesApi.fetch(input.currency))
+ *   .build()
+ * ```
+ */
+
+import type { Result } from "neverthrow"
+import type { HandlerOptions } from "./types.ts"
+import type { ErrorClassConstructor } from "./handler.ts"
+
+/**
+ * Retry policy for a handler's resolver
+ */
+export interface RetryPolicy {
+  /** Error classes whose `_tag` makes a failed attempt retryable */
+  on: readonly ErrorClassConstructor[]
+  /** Maximum number of attempts, including the first one */
+  attempts: number
+  /** Delay growth between attempts (default: `exponential`) */
+  backoff?: "fixed" | "exponential"
+  /** Delay before the first retry in milliseconds (default: 100) */
+  delayMs?: number
+  /** Upper bound for a single delay in milliseconds */
+  maxDelayMs?: number
+  /** Randomize each delay between 0 and its computed value (default: false) */
+  jitter?: boolean
+  /**
+   * Called right before each retry with the error of the failed attempt and the number
+   * of the attempt about to run (2 for the first retry)
+   */
+  onRetry?: (error: unknown, attempt: number) => void
+}
+
+/**
+ * Serializable summary of a retry policy, as found in handler metadata
+ */
+export interface RetryMetadata {
+  on: string[]
+  attempts: number
+  backoff: "fixed" | "exponential"
+  delayMs: number
+  maxDelayMs?: number
+  jitter: boolean
+}
+
+/**
+ * Summarize a retry policy given the `_tag`s of its retryable error classes
+ */
+export function describeRetryPolicy(policy: RetryPolicy, tags: string[]): RetryMetadata {
+  return {
+    on: tags,
+    attempts: policy.attempts,
+    backoff: policy.backoff ?? "exponential",
+    delayMs: policy.delayMs ?? 100,
+    maxDelayMs: policy.maxDelayMs,
+    jitter: policy.jitter ?? false,
+  }
+}
+
+/**
+ * Delay before the given retry (1 = first retry)
+ */
+export function computeRetryDelay(retry: RetryMetadata, retryNumber: number): number {
+  const base = retry.backoff === "fixed" ? retry.delayMs : retry.delayMs * 2 ** (retryNumber - 1)
+  const capped = retry.maxDelayMs !== undefined ? Math.min(base, retry.maxDelayMs) : base
+  return retry.jitter ? Math.random() * capped : capped
+}
+
+// Wait for the given time, resolving early with `false` if the signal aborts
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<boolean>((resolve) => {
+    if (signal?.aborted) {
+      resolve(false)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      resolve(false)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve(true)
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+
+/**
+ * Run an attempt function under a retry policy. Only errors whose `_tag` is listed in
+ * the policy are retried, and retries stop at the invocation's deadline or abort.
+ */
+export async function runWithRetry<T, E>(
+  retry: RetryMetadata,
+  options: HandlerOptions | undefined,
+  attempt: () => Promise<Result<T, E>>,
+  onRetry?: RetryPolicy["onRetry"]
+): Promise<Result<T, E>> {
+  let result = await attempt()
+
+  for (let retryNumber = 1; retryNumber < retry.attempts; retryNumber++) {
+    if (result.isOk() || !isRetryable(result.error, retry.on)) {
+      return result
+    }
+
+    const delay = computeRetryDelay(retry, retryNumber)
+    if (options?.deadline !== undefined && Date.now() + delay >= options.deadline) {
+      return result
+    }
+    if (!(await sleep(delay, options?.signal))) {
+      return result
+    }
+
+    onRetry?.(result.error, retryNumber + 1)
+    result = await attempt()
+  }
+
+  return result
+}
+
+// Check whether an error carries one of the retryable tags
+const isRetryable = (error: unknown, tags: string[]) =>
+  typeof error === "object" &&
+  error !== null &&
+  "_tag" in error &&
+  tags.includes((error as { _tag: unknown })._tag as string)
@@ -24,7 +24,7 @@
  *
  * // Define service
  * export const accountService = defineService("AccountService")
- *   .withServiceDependencies<AccountDeps>()
+ *   .$dependsOn<AccountDeps>()
  *   .addHandler("listAccounts", listAccountsHandler)
  *   .addHandler("createAccount", createAccountHandler)
  *   .build()
@@ -33,9 +33,82 @@
  * const service = accountService.make({ database, logger })
  * const result = await service.listAccounts(input, options)
  * ```
+ *
+ * ## Service Middleware
+ *
+ * `.use(middleware, target?)` registers middleware that `make()` wraps around every
+ * handler, or only around the handlers selected by name or tag. Service middleware
+ * always runs outside the handler: it executes in registration order before the
+ * handler's own input validation and handler-level middleware, sees the raw input and
+ * the context already merged with the service dependencies.
+ *
+ * ```typescript
+ * export const accountService = defineService("AccountService")
+ *   .$dependsOn<AccountDeps>()
+ *   .use(loggingMiddleware)
+ *   .use(tenancyMiddleware, { tags: ["tenant-scoped"] })
+ *   .addHandler("listAccounts", listAccountsHandler)
+ *   .build()
+ * ```
+ *
+ * ## Handler Versions
+ *
+ * Handlers versioned with `.version("2")` can be registered under the same name several
+ * times, once per version. `make()` invokes the latest version unless the caller picks
+ * one with `options.version`; unknown versions return `err(HandlerVersionNotFoundError)`.
+ * Registering an unversioned handler under a taken name replaces it, as before.
+ *
+ * ```typescript
+ * export const userService = defineService("UserService")
+ *   .$dependsOn<UserDeps>()
+ *   .addHandler("getUser", getUserV1.method) // .version("1")
+ *   .addHandler("getUser", getUserV2.method) // .version("2")
+ *   .build()
+ *
+ * const users = userService.make(deps)
+ * await users.getUser(input)                      // version 2
+ * await users.getUser(input, { version: "1" })    // version 1
+ * ```
+ *
+ * ## Authorization
+ *
+ * `.authorizer(authorizer)` enforces the `.auth()` settings of the service's handlers
+ * with a service-specific `Authorizer`, instead of the globally configured one.
+ *
+ * ## Concurrency
+ *
+ * `.concurrency({ max, queue?, queueTimeoutMs? })` bounds the concurrent invocations of
+ * all of the service's `Result`-returning handlers together, across every `make()`
+ * instance; excess calls are queued or fail with `HandlerOverloadedError` (see the
+ * concurrency module). Handlers can have their own limits as well.
+ *
+ * ## Lifecycle Hooks
+ *
+ * `.hooks({ onStart, onSuccess, onError, onDefect, onFinally })` observes every
+ * invocation of the service's `Result`-returning handlers, outside the service
+ * middleware. The hooks receive the handler name as their last argument (see the hooks
+ * module).
+ *
+ * Streaming handlers (built with `.buildStream()`) can be registered too. `make()`
+ * exposes them unchanged, returning the `HandlerStream`; service middleware wraps
+ * `Result`-returning handlers only and is not applied to them.
  */
 
+import { err } from "neverthrow"
 import type { HandlerContext, HandlerOptions, MergedContext } from "./types.ts"
+import { composeMiddleware, type AnyMiddleware, type HandlerMiddleware } from "./middleware.ts"
+import type { ErrorClassConstructor } from "./handler.ts"
+import type { CacheMetadata } from "./cache.ts"
+import type { HandlerStream } from "./streaming.ts"
+import type { DeprecationMetadata } from "./deprecation.ts"
+import type { RateLimitMetadata } from "./rate-limit.ts"
+import { HandlerVersionNotFoundError } from "./errors.ts"
+import { getCurrentInvocation, runInInvocation, runInRequest } from "./invocation.ts"
+import { captureDefects } from "./defects.ts"
+import type { Authorizer } from "./auth.ts"
+import { Bulkhead, type ConcurrencyOptions, type ConcurrencyStats } from "./concurrency.ts"
+import type { CircuitBreaker } from "./circuit-breaker.ts"
+import { runWithHooks, type ServiceHooks } from "./hooks.ts"
 
 /**
  * Marker symbol for service definitions
@@ -51,6 +124,30 @@ export interface ServiceMetadata {
   dependencyTypes?: string[]
   version?: string
   tags?: string[]
+  /** Names of the service-level middleware, in execution order */
+  middleware?: string[]
+  /** Every registered version of the versioned handlers, keyed by handler name and version */
+  handlerVersions?: Record<string, Record<string, unknown>>
+  /** Live state of the service-level concurrency limit */
+  concurrency?: ConcurrencyStats
+}
+
+/**
+ * Selects which handlers a service-level middleware applies to.
+ * A handler matches when its name is listed or it carries one of the tags;
+ * without a target the middleware applies to every handler.
+ */
+export interface ServiceMiddlewareTarget {
+  handlers?: string[]
+  tags?: string[]
+}
+
+/**
+ * A middleware registered on a service together with its target
+ */
+export interface ServiceMiddlewareEntry {
+  middleware: AnyMiddleware
+  target?: ServiceMiddlewareTarget
 }
 
 /**
@@ -61,12 +158,49 @@ export interface HandlerDefinition<TInput = unknown, TOutput = unknown, TError =
   /** Handler metadata for introspection */
   metadata?: {
     name: string
+    description?: string
+    tags?: string[]
     inputSchema?: unknown
     outputSchema?: unknown
     errorSchemas?: unknown[]
+    idempotent?: boolean
+    transactional?: boolean
+    /** Set on handlers marked with `.supportsDryRun()` */
+    supportsDryRun?: boolean
+    cache?: CacheMetadata
+    sync?: boolean
+    streaming?: boolean
+    version?: string
+    deprecated?: DeprecationMetadata
+    rateLimit?: RateLimitMetadata
+    requiredContext?: string[]
+    /** Concurrency limit of handlers built with `.concurrency()` */
+    bulkhead?: Bulkhead
+    /** Circuit breaker of handlers built with `.circuitBreaker()` */
+    breaker?: CircuitBreaker
   }
 }
 
+/**
+ * A synchronous handler definition, such as the `method` of a handler built with
+ * `.buildSync()`. Services await it like any other handler.
+ */
+export interface SyncHandlerDefinition<TInput = unknown, TOutput = unknown, TError = unknown, TServiceDeps = object> {
+  (input: TInput, options: HandlerOptions | undefined, ctx: MergedContext<TServiceDeps>): import("neverthrow").Result<TOutput, TError>
+  /** Handler metadata for introspection */
+  metadata?: HandlerDefinition["metadata"]
+}
+
+/**
+ * A streaming handler definition, such as the `method` of a handler built with
+ * `.buildStream()`
+ */
+export interface StreamHandlerDefinition<TInput = unknown, TChunk = unknown, TOutput = unknown, TError = unknown, TServiceDeps = object> {
+  (input: TInput, options: HandlerOptions | undefined, ctx: MergedContext<TServiceDeps>): HandlerStream<TChunk, TOutput, TError>
+  /** Handler metadata for introspection */
+  metadata?: HandlerDefinition["metadata"]
+}
+
 /**
  * Consumer-facing handler signature after service factory curries dependencies
  */
@@ -87,22 +221,59 @@ export type ServiceHandlers = Record<string, ServiceHandler>
 
 // Base state - service name defined
 export interface ServiceBuilderBase<TName extends string> {
+  /** Declare the service dependency type (type-only) */
+  $dependsOn<TDeps extends object>(): ServiceBuilderWithDeps<TName, TDeps>
+  /** @deprecated Use `.$dependsOn<T>()` instead */
   withServiceDependencies<TDeps extends object>(): ServiceBuilderWithDeps<TName, TDeps>
 }
 
 // Has service dependencies defined
 export interface ServiceBuilderWithDeps<TName extends string, TDeps extends object> {
+  use<A extends object, E extends readonly ErrorClassConstructor[]>(
+    middleware: HandlerMiddleware<A, E>,
+    target?: ServiceMiddlewareTarget
+  ): ServiceBuilderWithDeps<TName, TDeps>
+
+  /** Enforce the `.auth()` settings of this service's handlers with `authorizer` */
+  authorizer(authorizer: Authorizer): ServiceBuilderWithDeps<TName, TDeps>
+
+  /** Bound the concurrent invocations of this service's handlers */
+  concurrency(options: ConcurrencyOptions): ServiceBuilderWithDeps<TName, TDeps>
+
+  /** Observe the invocations of this service's handlers */
+  hooks(hooks: ServiceHooks<TDeps>): ServiceBuilderWithDeps<TName, TDeps>
+
   addHandler<THandlerName extends string, TInput, TOutput, TError>(
     name: THandlerName,
-    handler: HandlerDefinition<TInput, TOutput, TError, TDeps>
+    handler:
+      | HandlerDefinition<TInput, TOutput, TError, TDeps>
+      | SyncHandlerDefinition<TInput, TOutput, TError, TDeps>
+      | StreamHandlerDefinition<TInput, unknown, TOutput, TError, TDeps>
   ): ServiceBuilderWithHandlers<TName, TDeps>
 }
 
 // Has handlers registered  
 export interface ServiceBuilderWithHandlers<TName extends string, TDeps extends object> {
+  use<A extends object, E extends readonly ErrorClassConstructor[]>(
+    middleware: HandlerMiddleware<A, E>,
+    target?: ServiceMiddlewareTarget
+  ): ServiceBuilderWithHandlers<TName, TDeps>
+
+  /** Enforce the `.auth()` settings of this service's handlers with `authorizer` */
+  authorizer(authorizer: Authorizer): ServiceBuilderWithHandlers<TName, TDeps>
+
+  /** Bound the concurrent invocations of this service's handlers */
+  concurrency(options: ConcurrencyOptions): ServiceBuilderWithHandlers<TName, TDeps>
+
+  /** Observe the invocations of this service's handlers */
+  hooks(hooks: ServiceHooks<TDeps>): ServiceBuilderWithHandlers<TName, TDeps>
+
   addHandler<THandlerName extends string, TInput, TOutput, TError>(
     name: THandlerName, 
-    handler: HandlerDefinition<TInput, TOutput, TError, TDeps>
+    handler:
+      | HandlerDefinition<TInput, TOutput, TError, TDeps>
+      | SyncHandlerDefinition<TInput, TOutput, TError, TDeps>
+      | StreamHandlerDefinition<TInput, unknown, TOutput, TError, TDeps>
   ): ServiceBuilderWithHandlers<TName, TDeps>
   
   build(): ServiceDefinition<TName, TDeps>
@@ -124,6 +295,13 @@ export interface ServiceDefinition<TName extends string, TDeps extends object> {
 export class ServiceBuilder<TName extends string> implements ServiceBuilderBase<TName> {
   constructor(private readonly serviceName: TName) {}
 
+  $dependsOn<TDeps extends object>(): ServiceBuilderWithDeps<TName, TDeps> {
+    return this.withServiceDependencies<TDeps>()
+  }
+
+  /**
+   * @deprecated Use `.$dependsOn<T>()` instead
+   */
   withServiceDependencies<TDeps extends object>(): ServiceBuilderWithDeps<TName, TDeps> {
     return new ServiceBuilderWithDependencies(this.serviceName)
   }
@@ -135,17 +313,77 @@ export class ServiceBuilder<TName extends string> implements ServiceBuilderBase<
 export class ServiceBuilderWithDependencies<TName extends string, TDeps extends object> 
   implements ServiceBuilderWithDeps<TName, TDeps> {
   
-  constructor(private readonly serviceName: TName) {}
+  constructor(
+    private readonly serviceName: TName,
+    private readonly middleware: ServiceMiddlewareEntry[] = [],
+    private readonly serviceAuthorizer?: Authorizer,
+    private readonly concurrencyLimit?: ConcurrencyOptions,
+    private readonly serviceHooks: ServiceHooks<TDeps>[] = []
+  ) {}
+
+  use<A extends object, E extends readonly ErrorClassConstructor[]>(
+    middleware: HandlerMiddleware<A, E>,
+    target?: ServiceMiddlewareTarget
+  ): ServiceBuilderWithDeps<TName, TDeps> {
+    return new ServiceBuilderWithDependencies(this.serviceName, [
+      ...this.middleware,
+      { middleware: middleware as AnyMiddleware, target }
+    ], this.serviceAuthorizer, this.concurrencyLimit, this.serviceHooks)
+  }
+
+  authorizer(authorizer: Authorizer): ServiceBuilderWithDeps<TName, TDeps> {
+    return new ServiceBuilderWithDependencies(
+      this.serviceName,
+      this.middleware,
+      authorizer,
+      this.concurrencyLimit,
+      this.serviceHooks
+    )
+  }
+
+  concurrency(options: ConcurrencyOptions): ServiceBuilderWithDeps<TName, TDeps> {
+    return new ServiceBuilderWithDependencies(
+      this.serviceName,
+      this.middleware,
+      this.serviceAuthorizer,
+      options,
+      this.serviceHooks
+    )
+  }
+
+  hooks(hooks: ServiceHooks<TDeps>): ServiceBuilderWithDeps<TName, TDeps> {
+    return new ServiceBuilderWithDependencies(
+      this.serviceName,
+      this.middleware,
+      this.serviceAuthorizer,
+      this.concurrencyLimit,
+      [...this.serviceHooks, hooks]
+    )
+  }
 
   addHandler<THandlerName extends string, TInput, TOutput, TError>(
     name: THandlerName,
-    handler: HandlerDefinition<TInput, TOutput, TError, TDeps>
+    handler:
+      | HandlerDefinition<TInput, TOutput, TError, TDeps>
+      | SyncHandlerDefinition<TInput, TOutput, TError, TDeps>
+      | StreamHandlerDefinition<TInput, unknown, TOutput, TError, TDeps>
   ): ServiceBuilderWithHandlers<TName, TDeps> {
-    const handlers = {
-      [name]: handler as HandlerDefinition<unknown, unknown, unknown, TDeps>
-    }
-    
-    return new ServiceBuilderWithHandlerRegistry(this.serviceName, handlers)
+    const { handlers, versions } = registerHandler<TDeps>(
+      {},
+      {},
+      name,
+      handler as unknown as HandlerDefinition<unknown, unknown, unknown, TDeps>
+    )
+
+    return new ServiceBuilderWithHandlerRegistry(
+      this.serviceName,
+      handlers,
+      this.middleware,
+      versions,
+      this.serviceAuthorizer,
+      this.concurrencyLimit,
+      this.serviceHooks
+    )
   }
 }
 
@@ -157,23 +395,95 @@ export class ServiceBuilderWithHandlerRegistry<TName extends string, TDeps exten
   
   constructor(
     private readonly serviceName: TName,
-    private readonly handlers: Record<string, HandlerDefinition<unknown, unknown, unknown, TDeps>>
+    private readonly handlers: Record<string, HandlerDefinition<unknown, unknown, unknown, TDeps>>,
+    private readonly middleware: ServiceMiddlewareEntry[] = [],
+    private readonly versions: HandlerVersions<TDeps> = {},
+    private readonly serviceAuthorizer?: Authorizer,
+    private readonly concurrencyLimit?: ConcurrencyOptions,
+    private readonly serviceHooks: ServiceHooks<TDeps>[] = []
   ) {}
 
+  use<A extends object, E extends readonly ErrorClassConstructor[]>(
+    middleware: HandlerMiddleware<A, E>,
+    target?: ServiceMiddlewareTarget
+  ): ServiceBuilderWithHandlers<TName, TDeps> {
+    return new ServiceBuilderWithHandlerRegistry(this.serviceName, this.handlers, [
+      ...this.middleware,
+      { middleware: middleware as AnyMiddleware, target }
+    ], this.versions, this.serviceAuthorizer, this.concurrencyLimit, this.serviceHooks)
+  }
+
+  authorizer(authorizer: Authorizer): ServiceBuilderWithHandlers<TName, TDeps> {
+    return new ServiceBuilderWithHandlerRegistry(
+      this.serviceName,
+      this.handlers,
+      this.middleware,
+      this.versions,
+      authorizer,
+      this.concurrencyLimit,
+      this.serviceHooks
+    )
+  }
+
+  concurrency(options: ConcurrencyOptions): ServiceBuilderWithHandlers<TName, TDeps> {
+    return new ServiceBuilderWithHandlerRegistry(
+      this.serviceName,
+      this.handlers,
+      this.middleware,
+      this.versions,
+      this.serviceAuthorizer,
+      options,
+      this.serviceHooks
+    )
+  }
+
+  hooks(hooks: ServiceHooks<TDeps>): ServiceBuilderWithHandlers<TName, TDeps> {
+    return new ServiceBuilderWithHandlerRegistry(
+      this.serviceName,
+      this.handlers,
+      this.middleware,
+      this.versions,
+      this.serviceAuthorizer,
+      this.concurrencyLimit,
+      [...this.serviceHooks, hooks]
+    )
+  }
+
   addHandler<THandlerName extends string, TInput, TOutput, TError>(
     name: THandlerName,
-    handler: HandlerDefinition<TInput, TOutput, TError, TDeps>
+    handler:
+      | HandlerDefinition<TInput, TOutput, TError, TDeps>
+      | SyncHandlerDefinition<TInput, TOutput, TError, TDeps>
+      | StreamHandlerDefinition<TInput, unknown, TOutput, TError, TDeps>
   ): ServiceBuilderWithHandlers<TName, TDeps> {
-    const newHandlers = {
-      ...this.handlers,
-      [name]: handler as HandlerDefinition<unknown, unknown, unknown, TDeps>
-    }
-    
-    return new ServiceBuilderWithHandlerRegistry(this.serviceName, newHandlers)
+    const { handlers, versions } = registerHandler(
+      this.handlers,
+      this.versions,
+      name,
+      handler as unknown as HandlerDefinition<unknown, unknown, unknown, TDeps>
+    )
+
+    return new ServiceBuilderWithHandlerRegistry(
+      this.serviceName,
+      handlers,
+      this.middleware,
+      versions,
+      this.serviceAuthorizer,
+      this.concurrencyLimit,
+      this.serviceHooks
+    )
   }
 
   build(): ServiceDefinition<TName, TDeps> {
-    return new ServiceImplementation(this.serviceName, this.handlers)
+    return new ServiceImplementation(
+      this.serviceName,
+      this.handlers,
+      this.middleware,
+      this.versions,
+      this.serviceAuthorizer,
+      this.concurrencyLimit,
+      this.serviceHooks
+    )
   }
 }
 
@@ -184,40 +494,170 @@ export class ServiceImplementation<TName extends string, TDeps extends object>
   implements ServiceDefinition<TName, TDeps> {
   
   readonly [ServiceMarker] = true as const
+
+  // Service-level concurrency limit, shared by every instance created with `make()`
+  private readonly bulkhead?: Bulkhead
   
   constructor(
     public readonly name: TName,
-    private readonly handlerDefinitions: Record<string, HandlerDefinition<unknown, unknown, unknown, TDeps>>
-  ) {}
+    private readonly handlerDefinitions: Record<string, HandlerDefinition<unknown, unknown, unknown, TDeps>>,
+    private readonly middleware: ServiceMiddlewareEntry[] = [],
+    private readonly versions: HandlerVersions<TDeps> = {},
+    private readonly authorizer?: Authorizer,
+    concurrency?: ConcurrencyOptions,
+    private readonly hooks: ServiceHooks<TDeps>[] = []
+  ) {
+    this.bulkhead = concurrency && new Bulkhead(`Service ${name}`, concurrency)
+  }
 
   make(dependencies: TDeps): ServiceHandlers {
     const serviceHandlers: ServiceHandlers = {}
     
     for (const [handlerName, handlerDef] of Object.entries(this.handlerDefinitions)) {
-      // Create a curried handler that merges dependencies into context
+      const registered = this.versions[handlerName]
+      if (!registered) {
+        serviceHandlers[handlerName] = this.bindHandler(handlerName, handlerDef, dependencies)
+        continue
+      }
+
+      // Dispatch to the version selected by the caller, the latest one by default
+      const versionHandlers = Object.fromEntries(
+        Object.entries(registered).map(([version, definition]) => [
+          version,
+          this.bindHandler(handlerName, definition, dependencies)
+        ])
+      )
+      const latest = handlerDef.metadata?.version as string
       serviceHandlers[handlerName] = (input: unknown, options?: HandlerOptions, ctx?: HandlerContext) => {
-        // Merge the service dependencies into the context
-        const mergedContext: MergedContext<TDeps> = { ...ctx, ...dependencies } as MergedContext<TDeps>
-        
-        // Call the original handler with the merged context
-        return handlerDef(input, options, mergedContext)
+        const version = options?.version ?? latest
+        const versionHandler = versionHandlers[version]
+        return versionHandler
+          ? versionHandler(input, options, ctx)
+          : Promise.resolve(err(new HandlerVersionNotFoundError(handlerName, version)))
       }
     }
     
     return serviceHandlers
   }
 
+  // Curry the dependencies into a handler and wrap it with the service middleware targeting it
+  private bindHandler(
+    handlerName: string,
+    handlerDef: HandlerDefinition<unknown, unknown, unknown, TDeps>,
+    dependencies: TDeps
+  ): ServiceHandler {
+    if (handlerDef.metadata?.streaming) {
+      // Streams are returned as-is: service middleware only wraps `Result`s
+      return ((input: unknown, options?: HandlerOptions, ctx?: HandlerContext) =>
+        this.inScope(ctx, () =>
+          handlerDef(input, options, { ...ctx, ...dependencies } as MergedContext<TDeps>)
+        )) as ServiceHandler
+    }
+
+    // Wrap the handler with the service middleware that targets it
+    const applicable = this.middleware
+      .filter(({ target }) => matchesTarget(target, handlerName, handlerDef.metadata?.tags))
+      .map(({ middleware }) => middleware)
+    // Async so that synchronous handlers are awaited uniformly
+    const chain = composeMiddleware(applicable, async (input, options, ctx) =>
+      handlerDef(input, options, ctx as MergedContext<TDeps>)
+    )
+
+    // Create a curried handler that merges dependencies into context
+    return (input: unknown, options?: HandlerOptions, ctx?: HandlerContext) => {
+      // Merge the service dependencies into the context
+      const mergedContext: MergedContext<TDeps> = { ...ctx, ...dependencies } as MergedContext<TDeps>
+      
+      // Call the original handler (through the middleware chain) with the merged context
+      const run = () => chain(input, options, mergedContext)
+      const operationId = handlerDef.metadata?.name ?? handlerName
+      const limited = () => (this.bulkhead ? this.bulkhead.run(run, { operationId, options }) : run())
+      return captureDefects(operationId, () =>
+        this.inScope(ctx, () =>
+          this.hooks.length > 0
+            ? runWithHooks(operationId, this.hooks, input, mergedContext, [handlerName], limited)
+            : limited()
+        )
+      )
+    }
+  }
+
+  // Run a call as part of the request made with the caller's context, and with the
+  // service authorizer in the invocation scope, where built handlers (and the handlers
+  // they call) look for both
+  private inScope<T>(ctx: HandlerContext | undefined, fn: () => T): T {
+    return runInRequest(ctx, () =>
+      this.authorizer
+        ? runInInvocation({ ...getCurrentInvocation(), authorizer: this.authorizer }, fn)
+        : fn()
+    )
+  }
+
   getMetadata(): ServiceMetadata {
     return {
       name: this.name,
       handlers: this.handlerDefinitions,
       dependencyTypes: [], // TODO: Extract from type system
       version: "1.0.0", // TODO: Make configurable
-      tags: [] // TODO: Extract from handler metadata
+      tags: [], // TODO: Extract from handler metadata
+      middleware: this.middleware.map(({ middleware }) => middleware.name),
+      handlerVersions: this.versions,
+      concurrency: this.bulkhead?.stats()
     }
   }
 }
 
+// Registered versions of the handlers versioned with `.version()`, by handler name
+type HandlerVersions<TDeps extends object> = Record<
+  string,
+  Record<string, HandlerDefinition<unknown, unknown, unknown, TDeps>>
+>
+
+// Add a handler to the registry. Versioned handlers are kept side by side with the other
+// versions of the same name, and the name resolves to the latest one
+function registerHandler<TDeps extends object>(
+  handlers: Record<string, HandlerDefinition<unknown, unknown, unknown, TDeps>>,
+  versions: HandlerVersions<TDeps>,
+  name: string,
+  handler: HandlerDefinition<unknown, unknown, unknown, TDeps>
+): { handlers: typeof handlers; versions: HandlerVersions<TDeps> } {
+  const version = handler.metadata?.version
+  const { [name]: registered, ...otherVersions } = versions
+
+  if (version === undefined) {
+    return { handlers: { ...handlers, [name]: handler }, versions: otherVersions }
+  }
+  // An unversioned handler registered earlier under the same name is replaced
+  const existing = registered ?? {}
+  if (existing[version]) {
+    throw new Error(`Handler "${name}" version "${version}" is already registered`)
+  }
+
+  const nameVersions = { ...existing, [version]: handler }
+  const [latest] = Object.keys(nameVersions).sort((a, b) =>
+    b.localeCompare(a, undefined, { numeric: true })
+  )
+  return {
+    handlers: { ...handlers, [name]: nameVersions[latest!]! },
+    versions: { ...otherVersions, [name]: nameVersions }
+  }
+}
+
+// Check whether a service middleware target selects the given handler
+function matchesTarget(
+  target: ServiceMiddlewareTarget | undefined,
+  handlerName: string,
+  handlerTags: string[] = []
+): boolean {
+  if (!target || (!target.handlers && !target.tags)) {
+    return true
+  }
+  if (target.handlers?.includes(handlerName)) {
+    return true
+  }
+  return target.tags?.some((tag) => handlerTags.includes(tag)) ?? false
+}
+
 /**
  * Entry point for creating a new service
  */
@@ -0,0 +1,181 @@
+/**
+ * @fileoverview Streaming Handlers
+ *
+ * Streaming handlers produce a sequence of chunks followed by a final `Result`, which
+ * suits exports, log tails and progressive responses. They are declared with
+ * `.stream(chunkSchema)` and an async generator passed to `.handlerStream()`, and built
+ * with `.buildStream()`.
+ *
+ * The built `method` returns a `HandlerStream`: an `AsyncIterable` of validated chunks
+ * with a `result` promise that settles with the final `Result` once the stream ends.
+ *
+ * - Every chunk is checked against the chunk schema; an invalid chunk ends the stream
+ *   with `err(OutputValidationError)`.
+ * - `options.signal`, `options.deadline` and `.timeout(ms)` bound the whole stream. When
+ *   a limit is reached the generator's `ctx.options.signal` is aborted and the stream
+ *   ends with `err(HandlerTimeoutError)`.
+ * - A consumer that stops iterating early (`break`) cancels the stream the same way.
+ *
+ * The generator runs while the stream is iterated, so `result` only settles for
+ * streams that are consumed.
+ *
+ * @example
+ * ```typescript
+ * const exportOrders = defineHandler("orders.export", "Export orders")
+ *   .input(z.object({ since: z.string() }))
+ *   .output(z.object({ exported: z.number() }))
+ *   .stream(OrderSchema)
+ *   .handlerStream<OrderDeps>(async function* (input, ctx) {
+ *     let exported = 0
+ *     for await (const order of ctx.deps.orders.since(input.since, ctx.options?.signal)) {
+ *       yield order
+ *       exported++
+ *     }
+ *     return ok({ exported })
+ *   })
+ *   .buildStream()
+ *
+ * const stream = exportOrders(deps).method({ since: "2024-01-01" }, { signal }, ctx)
+ * for await (const order of stream) {
+ *   write(order)
+ * }
+ * const summary = await stream.result
+ * ```
+ */
+
+import { err, type Result } from "neverthrow"
+import type { z } from "zod"
+import { HandlerTimeoutError, OutputValidationError, type UnexpectedError } from "./errors.ts"
+import { captureDefect } from "./defects.ts"
+import {
+  exceededInvocationLimits,
+  getCurrentInvocation,
+  resolveInvocationLimits,
+  runInInvocation,
+  watchInvocationLimits,
+} from "./invocation.ts"
+import type { HandlerFunctionContext, HandlerOptions, MergedContext } from "./types.ts"
+
+/**
+ * Generator producing the chunks of a stream and returning its final `Result`
+ */
+export type HandlerChunkGenerator<TChunk, TOutput, TError> = AsyncGenerator<
+  TChunk,
+  Result<TOutput, TError>,
+  undefined
+>
+
+/**
+ * Streaming handler function signature used by `.handlerStream()`
+ */
+export type StreamHandlerFunction<TInput, TChunk, TOutput, TError, TDeps = unknown, TCtx = object> = (
+  input: TInput,
+  ctx: HandlerFunctionContext<TDeps, TCtx>
+) => HandlerChunkGenerator<TChunk, TOutput, TError>
+
+/**
+ * The chunks of a streaming invocation, plus its final result
+ */
+export interface HandlerStream<TChunk, TOutput, TError> extends AsyncIterable<TChunk> {
+  /** Settles with the final `Result` once the stream has ended */
+  readonly result: Promise<Result<TOutput, TError>>
+}
+
+/**
+ * Method signature of a built streaming handler
+ */
+export type StreamHandlerMethod<TInput, TChunk, TOutput, TError, TServiceDeps = object> = (
+  input: TInput,
+  options: HandlerOptions | undefined,
+  ctx: MergedContext<TServiceDeps>
+) => HandlerStream<TChunk, TOutput, TError>
+
+/**
+ * Run a streaming invocation: validate chunks, enforce the invocation limits and settle
+ * `result` with the generator's return value passed through `finalize`
+ */
+export function runStream<TChunk, TOutput, TError>(
+  operationId: string,
+  timeoutMs: number | undefined,
+  options: HandlerOptions | undefined,
+  chunkSchema: z.ZodTypeAny,
+  generate: (options: HandlerOptions | undefined) => AsyncIterator<unknown, Result<TOutput, TError>, undefined>,
+  finalize: (result: Result<TOutput, TError>) => Result<TOutput, TError>
+): HandlerStream<TChunk, TOutput, TError | OutputValidationError | HandlerTimeoutError | UnexpectedError> {
+  type Outcome = Result<TOutput, TError | OutputValidationError | HandlerTimeoutError | UnexpectedError>
+
+  let settle: (outcome: Outcome) => void = () => undefined
+  let fail: (error: unknown) => void = () => undefined
+  const result = new Promise<Outcome>((resolve, reject) => {
+    settle = resolve
+    fail = reject
+  })
+  // Thrown generator errors surface through iteration; don't report them twice
+  result.catch(() => undefined)
+
+  // The stream runs when it is iterated; it belongs to the invocation that created it
+  const parent = getCurrentInvocation()
+
+  async function* iterate(): AsyncGenerator<TChunk, void, undefined> {
+    const limits = runInInvocation(parent ?? {}, () => resolveInvocationLimits(timeoutMs, options))
+    const exceeded = exceededInvocationLimits(operationId, limits)
+    if (exceeded) {
+      settle(err(exceeded))
+      return
+    }
+
+    const controller = new AbortController()
+    const watch = watchInvocationLimits(operationId, limits, controller)
+    const { deadline } = limits
+    const scope = { ...parent, deadline, signal: controller.signal }
+    const iterator = runInInvocation(scope, () =>
+      generate({ ...options, deadline, signal: controller.signal })
+    )
+    const aborted = watch.aborted.then((error) => ({ aborted: error }))
+
+    let outcome: Outcome | undefined
+    let finished = false
+    try {
+      while (outcome === undefined) {
+        const step = await Promise.race([runInInvocation(scope, () => iterator.next()), aborted])
+        if ("aborted" in step) {
+          outcome = err(step.aborted)
+        } else if (step.done) {
+          finished = true
+          outcome = finalize(step.value)
+        } else {
+          const parsed = chunkSchema.safeParse(step.value)
+          if (!parsed.success) {
+            outcome = err(OutputValidationError.fromZodIssues(parsed.error.issues))
+          } else {
+            yield parsed.data as TChunk
+          }
+        }
+      }
+    } catch (error) {
+      finished = true
+      const defect = captureDefect(operationId, error)
+      if (!defect) {
+        fail(error)
+        throw error
+      }
+      outcome = err(defect)
+    } finally {
+      watch.stop()
+      if (!finished) {
+        // Stopped by a limit, an invalid chunk or the consumer: cancel the generator
+        if (!controller.signal.aborted) {
+          controller.abort()
+        }
+        iterator.return?.(undefined)?.catch(() => undefined)
+      }
+      settle(outcome ?? err(new HandlerTimeoutError(operationId, "aborted")))
+    }
+  }
+
+  const chunks = iterate()
+  return {
+    result,
+    [Symbol.asyncIterator]: () => chunks,
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Handler Templates
+ *
+ * A handler template is a partially configured `HandlerBuilder`: input, output, errors,
+ * tags or auth are preset, and the handler is finished with `.handler()` (or further
+ * configuration first). Templates are plain functions taking the `operationId` and
+ * `description` that `defineHandler` needs, plus their own parameters.
+ *
+ * `CrudHandlers` ships templates for the usual create/get/update/delete/list operations
+ * on an entity schema with an `id` field. They share one pagination contract
+ * (`PaginationInput` / `paginated()`) and return `NotFoundError` for unknown ids.
+ *
+ * Like anywhere else, `.errors([...])` replaces the error classes declared so far,
+ * including those a template presets (`NotFoundError`, `DatabaseError`): list them again
+ * to add errors of your own, e.g. `.errors([NotFoundError, DatabaseError, UserSuspendedError])`.
+ *
+ * @example
+ * ```typescript
+ * const User = z.object({ id: z.string(), name: z.string(), email: z.string() })
+ *
+ * const getUser = CrudHandlers.get("users.get", "Get a user", User)
+ *   .handler<UserDeps>(async (input, ctx) => {
+ *     const user = await ctx.deps.users.find(input.id)
+ *     return user ? ok(user) : err(new NotFoundError("User", input.id))
+ *   })
+ *   .build()
+ *
+ * // Custom templates
+ * const adminOnly = defineHandlerTemplate((builder, scope: string) =>
+ *   builder.tags("Admin").auth({ required: true, scopes: [scope] })
+ * )
+ * const purgeCache = adminOnly("admin.purgeCache", "Purge all caches", "admin:write")
+ *   .input(z.object({}))
+ *   .output(z.object({ purged: z.number() }))
+ *   .handler<AdminDeps>(async (_input, ctx) => ok({ purged: await ctx.deps.cache.purge() }))
+ *   .build()
+ * ```
+ */
+
+import { z } from "zod"
+import { defineHandler } from "./handler.ts"
+import { DatabaseError, NotFoundError } from "./errors.ts"
+
+/**
+ * A fresh builder, as returned by `defineHandler`
+ */
+export type HandlerTemplateBase = ReturnType<typeof defineHandler>
+
+/**
+ * Create a handler template from a function that presets a fresh builder
+ */
+export function defineHandlerTemplate<TArgs extends unknown[], TBuilder>(
+  preset: (builder: HandlerTemplateBase, ...args: TArgs) => TBuilder
+): (operationId: string, description: string, ...args: TArgs) => TBuilder {
+  return (operationId, description, ...args) =>
+    preset(defineHandler(operationId, description), ...args)
+}
+
+// ============================================================================
+// Pagination
+// ============================================================================
+
+/**
+ * Input of paginated list operations: at most `limit` items (default 20, max 100)
+ * after the opaque `cursor` returned by the previous page
+ */
+export const PaginationInput = z.object({
+  limit: z.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+})
+
+/**
+ * A page of items; `nextCursor` is `null` on the last page
+ */
+export interface Page<T> {
+  items: T[]
+  nextCursor: string | null
+}
+
+/**
+ * Output schema of paginated list operations
+ */
+export function paginated<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    items: z.array(item),
+    nextCursor: z.string().nullable(),
+  })
+}
+
+// ============================================================================
+// CRUD Templates
+// ============================================================================
+
+/**
+ * Shape of entity schemas accepted by the CRUD templates
+ */
+export type EntityShape = z.ZodRawShape & { id: z.ZodType<string | number> }
+
+// Entity schemas typed so that their `id` key is known to `.pick()` and `.omit()`
+type EntitySchema<S extends EntityShape> = z.ZodObject<S & { id: S["id"] }>
+
+// Input selecting a single entity by id. Like every input derived from the entity
+// schema, it keeps the schema's handling of unknown keys (strip, strict or passthrough)
+const byId = <S extends EntityShape>(entity: EntitySchema<S>) => entity.pick({ id: true })
+
+// Entity fields without the id
+const fieldsOf = <S extends EntityShape>(entity: EntitySchema<S>) => entity.omit({ id: true })
+
+// Paginated list template taking the given input
+const listTemplate = <S extends EntityShape, I extends z.ZodRawShape>(
+  operationId: string,
+  description: string,
+  entity: z.ZodObject<S>,
+  input: z.ZodObject<I>
+) =>
+  defineHandler(operationId, description)
+    .input(input)
+    .output(paginated(entity))
+    .errors([DatabaseError] as const)
+
+/**
+ * List entities page by page, optionally filtered by the given fields
+ */
+function list<S extends EntityShape>(
+  operationId: string,
+  description: string,
+  entity: z.ZodObject<S>
+): ReturnType<typeof listTemplate<S, (typeof PaginationInput)["shape"]>>
+function list<S extends EntityShape, F extends z.ZodRawShape>(
+  operationId: string,
+  description: string,
+  entity: z.ZodObject<S>,
+  filters: z.ZodObject<F>
+): ReturnType<typeof listTemplate<S, ReturnType<typeof PaginationInput.extend<F>>["shape"]>>
+function list<S extends EntityShape, F extends z.ZodRawShape>(
+  operationId: string,
+  description: string,
+  entity: z.ZodObject<S>,
+  filters?: z.ZodObject<F>
+) {
+  return filters
+    ? listTemplate(operationId, description, entity, PaginationInput.extend(filters.shape))
+    : listTemplate(operationId, description, entity, PaginationInput)
+}
+
+/**
+ * Templates for create/get/update/delete/list operations on an entity schema
+ */
+export const CrudHandlers = {
+  /**
+   * Create an entity from all fields except `id`; returns the stored entity
+   */
+  create<S extends EntityShape>(operationId: string, description: string, entity: z.ZodObject<S>) {
+    return defineHandler(operationId, description)
+      .input(fieldsOf(entity))
+      .output(entity)
+      .errors([DatabaseError] as const)
+  },
+
+  /**
+   * Get an entity by `id`
+   */
+  get<S extends EntityShape>(operationId: string, description: string, entity: z.ZodObject<S>) {
+    return defineHandler(operationId, description)
+      .input(byId(entity))
+      .output(entity)
+      .errors([NotFoundError, DatabaseError] as const)
+  },
+
+  /**
+   * Partially update an entity selected by `id`; returns the updated entity
+   */
+  update<S extends EntityShape>(operationId: string, description: string, entity: z.ZodObject<S>) {
+    return defineHandler(operationId, description)
+      .input(fieldsOf(entity).partial().extend(byId(entity).shape))
+      .output(entity)
+      .errors([NotFoundError, DatabaseError] as const)
+  },
+
+  /**
+   * Delete an entity by `id`; returns the deleted id
+   */
+  delete<S extends EntityShape>(operationId: string, description: string, entity: z.ZodObject<S>) {
+    return defineHandler(operationId, description)
+      .input(byId(entity))
+      .output(byId(entity))
+      .errors([NotFoundError, DatabaseError] as const)
+  },
+
+  list,
+}
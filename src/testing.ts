@@ -2,13 +2,17 @@
  * @fileoverview Testing Utilities for Framewerk Services
  *
  * This module provides test-runner agnostic testing utilities specifically designed
- * for services built with framewerk. It includes service test harnesses and
- * utilities for testing with neverthrow Result types.
+ * for services and handlers built with framewerk. It includes service and handler test
+ * harnesses and utilities for testing with neverthrow Result types.
  */
 
 import { type Result } from 'neverthrow'
 import type { ServiceDefinition } from './service.ts'
 import type { HandlerOptions, HandlerContext } from './types.ts'
+import type { HandlerFactoryInput } from './handler.ts'
+
+// Handler factory as returned by `.build()`, `.buildSync()` or `.buildStream()`
+type BuiltHandlerFactory = (deps: never) => { readonly method: (...args: never[]) => unknown }
 
 /**
  * Service test harness for comprehensive testing
@@ -76,6 +80,47 @@ export function createServiceTestHarness<
   }
 }
 
+/**
+ * Test harness for a built handler factory
+ *
+ * The handler instance is created with the given dependencies, and `call` invokes its
+ * method without options and with an empty context unless they are given. It returns
+ * whatever the method does: a `Result` promise, a `Result`, or a `HandlerStream`.
+ */
+export interface HandlerTestHarness<H extends BuiltHandlerFactory> {
+  /** Handler instance with injected dependencies */
+  handler: ReturnType<H>
+  /** Mock dependencies for verification */
+  mockDependencies: Parameters<H>[0]
+  /** Call the handler's method */
+  call: (
+    input: HandlerFactoryInput<H>,
+    options?: HandlerOptions,
+    context?: HandlerContext
+  ) => ReturnType<ReturnType<H>["method"]>
+}
+
+/**
+ * Create a test harness for a built handler
+ *
+ * @param factory The built handler factory to test
+ * @param dependencies Mock dependencies to inject
+ * @returns Test harness with the handler instance and a `call` shortcut
+ */
+export function createHandlerTestHarness<H extends BuiltHandlerFactory>(
+  factory: H,
+  dependencies: Parameters<H>[0]
+): HandlerTestHarness<H> {
+  const handler = factory(dependencies) as ReturnType<H>
+  const method = handler.method as (input: unknown, options?: HandlerOptions, context?: HandlerContext) => unknown
+
+  return {
+    handler,
+    mockDependencies: dependencies,
+    call: (input, options, context = {}) => method(input, options, context) as ReturnType<ReturnType<H>["method"]>,
+  }
+}
+
 /**
  * Result testing utilities for neverthrow
  * 
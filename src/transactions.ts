@@ -0,0 +1,165 @@
+/**
+ * @fileoverview Managed Transactions
+ *
+ * Handlers marked with `.transactional()` run their resolver (middleware and output
+ * validation included) inside a transaction of a pluggable `TransactionManager`:
+ *
+ * - the transaction is begun before the resolver and passed in `options.transaction`
+ * - it is committed when the handler returns `ok`
+ * - it is rolled back when the handler returns `err` (including `OutputValidationError`),
+ *   throws, outlives its deadline, or runs as a dry run (`options.dryRun`), whose
+ *   effects must never persist
+ * - with `.retry()`, each attempt begins its own transaction, which is rolled back when
+ *   the attempt fails
+ *
+ * A transaction that is already open is reused instead: the one the caller passed in
+ * `options.transaction`, or the one of the enclosing handler, which nested handler calls
+ * find in the invocation scope. Only the handler that began a transaction commits or
+ * rolls it back, so nested handlers join the outer unit of work, and the retries of a
+ * nested handler share it as well.
+ *
+ * The manager is configured globally with `configureFramewerk({ transactions: { manager } })`
+ * or per handler. `InMemoryTransactionManager` records transactions for tests.
+ *
+ * @example
+ * ```typescript
+ * configureFramewerk({ transactions: { manager: knexTransactionManager(db) } })
+ *
+ * const transfer = defineHandler("payments.transfer", "Transfer money")
+ *   .input(TransferInput)
+ *   .output(Transfer)
+ *   .transactional()
+ *   .handler<PaymentDeps>(async (input, ctx) => {
+ *     const trx = ctx.options?.transaction as Knex.Transaction
+ *     await ctx.deps.ledger.debit(trx, input.from, input.amount)
+ *     await ctx.deps.ledger.credit(trx, input.to, input.amount)
+ *     return ok({ id: input.id })
+ *   })
+ *   .build()
+ * ```
+ */
+
+import type { Result } from "neverthrow"
+import { getFramewerkConfig } from "./config.ts"
+import { getCurrentInvocation, runInInvocation } from "./invocation.ts"
+import type { HandlerOptions } from "./types.ts"
+
+/**
+ * Creates, commits and rolls back transactions, e.g. of a database client
+ */
+export interface TransactionManager<TTransaction = unknown> {
+  /** Begin a transaction for an invocation of the handler `operationId` */
+  begin(operationId: string): Promise<TTransaction>
+  commit(transaction: TTransaction): Promise<void>
+  /**
+   * Roll back a transaction; `reason` is the returned error, the thrown exception, or
+   * `"dry-run"` for dry runs
+   */
+  rollback(transaction: TTransaction, reason: unknown): Promise<void>
+}
+
+/**
+ * Options of `.transactional()`
+ */
+export interface TransactionalOptions {
+  /** Manager of the handler's transactions (default: the globally configured one) */
+  manager?: TransactionManager
+}
+
+/**
+ * Global transaction settings
+ */
+export interface TransactionConfig {
+  /** Manager used by transactional handlers without their own */
+  manager?: TransactionManager
+}
+
+/**
+ * Run `execute` in a transaction: the open one if there is any, otherwise a new one
+ * that is committed on `ok` and rolled back on `err`, when `execute` throws, and on
+ * dry runs
+ */
+export async function runInTransaction<T, E>(
+  operationId: string,
+  settings: TransactionalOptions,
+  options: HandlerOptions | undefined,
+  execute: (options: HandlerOptions | undefined) => Promise<Result<T, E>>
+): Promise<Result<T, E>> {
+  const scope = getCurrentInvocation()
+  const open = options?.transaction ?? scope?.transaction
+  if (open !== undefined) {
+    return runInInvocation({ ...scope, transaction: open }, () => execute({ ...options, transaction: open }))
+  }
+
+  const manager = settings.manager ?? getFramewerkConfig().transactions.manager
+  if (!manager) {
+    throw new Error(`Handler "${operationId}" is transactional but no TransactionManager is configured`)
+  }
+
+  const transaction = await manager.begin(operationId)
+  let result: Result<T, E>
+  try {
+    result = await runInInvocation({ ...scope, transaction }, () => execute({ ...options, transaction }))
+  } catch (defect) {
+    await manager.rollback(transaction, defect)
+    throw defect
+  }
+
+  // The caller already received a `HandlerTimeoutError` when the deadline passed
+  if (result.isOk() && options?.signal?.aborted) {
+    await manager.rollback(transaction, options.signal.reason)
+  } else if (result.isOk() && options?.dryRun) {
+    await manager.rollback(transaction, "dry-run")
+  } else if (result.isOk()) {
+    await manager.commit(transaction)
+  } else {
+    await manager.rollback(transaction, result.error)
+  }
+  return result
+}
+
+/**
+ * A transaction recorded by `InMemoryTransactionManager`
+ */
+export interface InMemoryTransaction {
+  id: number
+  operationId: string
+  status: "open" | "committed" | "rolled-back"
+  /** Why the transaction was rolled back */
+  reason?: unknown
+}
+
+/**
+ * Transaction manager that only records transactions, for tests
+ */
+export class InMemoryTransactionManager implements TransactionManager<InMemoryTransaction> {
+  /** Every transaction begun, in order */
+  readonly transactions: InMemoryTransaction[] = []
+
+  async begin(operationId: string): Promise<InMemoryTransaction> {
+    const transaction: InMemoryTransaction = { id: this.transactions.length + 1, operationId, status: "open" }
+    this.transactions.push(transaction)
+    return transaction
+  }
+
+  async commit(transaction: InMemoryTransaction): Promise<void> {
+    this.settle(transaction, "committed")
+  }
+
+  async rollback(transaction: InMemoryTransaction, reason: unknown): Promise<void> {
+    this.settle(transaction, "rolled-back")
+    transaction.reason = reason
+  }
+
+  /** Forget all recorded transactions */
+  clear(): void {
+    this.transactions.length = 0
+  }
+
+  private settle(transaction: InMemoryTransaction, status: InMemoryTransaction["status"]) {
+    if (transaction.status !== "open") {
+      throw new Error(`Transaction ${transaction.id} is already ${transaction.status}`)
+    }
+    transaction.status = status
+  }
+}
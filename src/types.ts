@@ -38,10 +38,40 @@ export interface HandlerContext {
  * like transactions, request metadata, etc.
  */
 export interface HandlerOptions {
-  /** Optional database transaction */
+  /**
+   * Optional database transaction. Handlers marked with `.transactional()` join it, or
+   * begin and pass their own.
+   */
   transaction?: unknown
   /** Request-specific metadata */
   requestMetadata?: Record<string, unknown>
+  /**
+   * Absolute deadline (epoch milliseconds) after which the handler returns a
+   * `HandlerTimeoutError`. Nested handler calls inherit it automatically.
+   */
+  deadline?: number
+  /**
+   * Abort signal for the invocation. Built handlers replace it with a signal that also
+   * fires when the deadline passes, so resolvers can forward it to I/O.
+   */
+  signal?: AbortSignal
+  /**
+   * Idempotency key for handlers marked with `.idempotent()`. Requests sharing a key
+   * receive the first request's result.
+   */
+  idempotencyKey?: string
+  /**
+   * Version to invoke on services that register several versions of a handler.
+   * Defaults to the latest version.
+   */
+  version?: string
+  /**
+   * Preview the invocation without side effects. Only handlers marked with
+   * `.supportsDryRun()` accept it; they read it from `ctx.options.dryRun`, and their
+   * results are neither cached nor stored for idempotency. Handlers called during a dry
+   * run inherit it.
+   */
+  dryRun?: boolean
   /** Additional request context */
   [key: string]: unknown
 }
@@ -61,12 +91,40 @@ export type HandlerMethod<TInput, TOkOutput, TErrorOutput, TServiceDeps = object
   ctx: MergedContext<TServiceDeps>
 ) => Promise<Result<TOkOutput, TErrorOutput>>
 
+/**
+ * Context received by functions passed to `.handler()`: the merged request context plus
+ * the handler's dependencies on `ctx.deps` and the invocation options on `ctx.options`
+ */
+export type HandlerFunctionContext<TDeps = unknown, TCtx = object> = MergedContext<TCtx> & {
+  deps: TDeps
+  options: HandlerOptions | undefined
+}
+
+/**
+ * Handler function signature used by `.handler()`: (input, ctx) => Result
+ */
+export type HandlerFunction<TInput, TOkOutput, TErrorOutput, TDeps = unknown, TCtx = object> = (
+  input: TInput,
+  ctx: HandlerFunctionContext<TDeps, TCtx>
+) => Promise<Result<TOkOutput, TErrorOutput>>
+
+/**
+ * Synchronous handler method signature, produced by `HandlerBuilder.buildSync()`
+ */
 export type SyncHandlerMethod<TInput, TOkOutput, TErrorOutput, TServiceDeps = object> = (
   input: TInput,
   options: HandlerOptions | undefined,
   ctx: MergedContext<TServiceDeps>
 ) => Result<TOkOutput, TErrorOutput>
 
+/**
+ * Synchronous handler function signature used by `.handlerSync()`: (input, ctx) => Result
+ */
+export type SyncHandlerFunction<TInput, TOkOutput, TErrorOutput, TDeps = unknown, TCtx = object> = (
+  input: TInput,
+  ctx: HandlerFunctionContext<TDeps, TCtx>
+) => Result<TOkOutput, TErrorOutput>
+
 /**
  * Legacy handler method signature for backward compatibility
  */